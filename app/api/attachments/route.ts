@@ -0,0 +1,24 @@
+import { AttachmentError, extractAttachment } from "@/lib/attachment-text"
+import { MAX_ATTACHMENT_BYTES } from "@/lib/attachments"
+import { errorResponse, jsonResponse, parseFormBody } from "@/lib/http"
+import { logger } from "@/lib/logger"
+import { guardRequest, rejectionResponse } from "@/lib/request-guard"
+
+// Extract the text of an uploaded file (multipart field "file") so it can be attached to a message
+export async function POST(req: Request) {
+  const { rejection } = guardRequest(req)
+  if (rejection) return rejectionResponse(rejection)
+
+  const { form, error: invalid } = await parseFormBody(req, MAX_ATTACHMENT_BYTES)
+  if (invalid) return invalid
+  const file = form.get("file")
+  if (!(file instanceof File)) return errorResponse(400, 'Expected a file in the "file" field')
+
+  try {
+    return jsonResponse({ attachment: await extractAttachment(file) })
+  } catch (error) {
+    if (error instanceof AttachmentError) return errorResponse(400, error.message)
+    logger.error("Failed to read attachment", { error, name: file.name })
+    return errorResponse(500, "Failed to read attachment")
+  }
+}
@@ -0,0 +1,40 @@
+import { getClientIp, verifyPassword } from "@/lib/auth"
+import { createSessionCookie } from "@/lib/auth/session"
+import { AuthConfigError } from "@/lib/auth/types"
+import { errorResponse, jsonResponse, parseJsonBody } from "@/lib/http"
+import { logger } from "@/lib/logger"
+import { createTokenBucketLimiter, type TokenBucketLimiter } from "@/lib/rate-limit"
+import { loginSchema } from "@/lib/schemas"
+
+// Five attempts per address, refilling one every twelve seconds, to slow down password guessing; kept on globalThis
+// like the other limiters so a rebuilt route bundle does not hand out fresh attempts. Without a known address (see
+// TRUST_PROXY) attempts are not throttled, since one shared bucket would let a single client lock everyone out
+const globalLimiter = globalThis as typeof globalThis & { __loginLimiter?: TokenBucketLimiter }
+const loginLimiter = (globalLimiter.__loginLimiter ??= createTokenBucketLimiter(5, 5))
+
+// Exchange the shared password for a session cookie. Password mode is single-user: the password names no one, so
+// everyone who knows it signs in as the same user and shares its conversations and limits
+export async function POST(req: Request) {
+  const ip = getClientIp(req)
+  const limit = ip ? loginLimiter.take(ip) : undefined
+  if (limit && !limit.allowed) {
+    return jsonResponse({ error: "Too many login attempts", category: "rate_limited" }, 429, {
+      "Retry-After": String(Math.ceil(limit.retryAfterMs / 1000)),
+    })
+  }
+
+  const { data, error } = await parseJsonBody(req, loginSchema)
+  if (error) return error
+
+  if (!process.env.AUTH_PASSWORD) return errorResponse(404, "Password login is not enabled")
+  if (!verifyPassword(data.password)) return errorResponse(401, "Incorrect password")
+
+  try {
+    const user = { id: "password", name: "Password user", method: "password" as const }
+    return jsonResponse({ user }, 200, { "Set-Cookie": createSessionCookie(user) })
+  } catch (error) {
+    if (!(error instanceof AuthConfigError)) throw error
+    logger.error("Authentication configuration error", { error })
+    return errorResponse(500, error.message)
+  }
+}
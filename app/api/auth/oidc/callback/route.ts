@@ -0,0 +1,22 @@
+import { clearOidcStateCookie, completeOidcLogin, getOidcConfig } from "@/lib/auth/oidc"
+import { createSessionCookie } from "@/lib/auth/session"
+import { errorResponse } from "@/lib/http"
+import { logger } from "@/lib/logger"
+
+// The OIDC provider redirects here after login; start a session and return to the chat
+export async function GET(req: Request) {
+  const config = getOidcConfig()
+  if (!config) return errorResponse(404, "Single sign-on is not enabled")
+
+  const headers = new Headers({ "Set-Cookie": clearOidcStateCookie() })
+  try {
+    const user = await completeOidcLogin(config, req)
+    headers.append("Set-Cookie", createSessionCookie(user))
+    headers.set("Location", "/")
+  } catch (error) {
+    logger.error("OIDC login failed", { error })
+    const message = error instanceof Error ? error.message : "Login failed"
+    headers.set("Location", `/login?error=${encodeURIComponent(message)}`)
+  }
+  return new Response(null, { status: 302, headers })
+}
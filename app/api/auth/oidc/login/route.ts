@@ -0,0 +1,17 @@
+import { beginOidcLogin, getOidcConfig } from "@/lib/auth/oidc"
+import { errorResponse } from "@/lib/http"
+import { logger } from "@/lib/logger"
+
+// Redirect to the OIDC provider's login page
+export async function GET(req: Request) {
+  const config = getOidcConfig()
+  if (!config) return errorResponse(404, "Single sign-on is not enabled")
+
+  try {
+    const { location, cookie } = await beginOidcLogin(config, req.url)
+    return new Response(null, { status: 302, headers: { Location: location, "Set-Cookie": cookie } })
+  } catch (error) {
+    logger.error("Failed to start OIDC login", { error })
+    return errorResponse(502, "Could not reach the sign-in provider")
+  }
+}
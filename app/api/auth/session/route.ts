@@ -0,0 +1,17 @@
+import { authenticate, getAuthMethods, isAuthRequired, type SessionInfo } from "@/lib/auth"
+import { jsonResponse } from "@/lib/http"
+import { logger } from "@/lib/logger"
+
+// Who is signed in, and which login methods the login page should offer
+export async function GET(req: Request) {
+  const { password, oidc } = getAuthMethods()
+  let user = null
+  try {
+    user = authenticate(req)
+  } catch (error) {
+    logger.error("Failed to read session", { error })
+  }
+
+  const session: SessionInfo = { authRequired: isAuthRequired(), user, methods: { password, oidc } }
+  return jsonResponse(session)
+}
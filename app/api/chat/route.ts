@@ -1,107 +1,29 @@
-// Allow streaming responses up to 30 seconds
+import type { AdaptedResponse } from "@/lib/adapters"
+import {
+  isEventStream,
+  readBufferedResponse,
+  readUpstreamEvents,
+  requestCompletion,
+  requestDeadline,
+  requestImage,
+  type CompletionEvent,
+} from "@/lib/chat-backend"
+import { backendErrorResponse, parseJsonBody } from "@/lib/http"
+import { MAX_IMAGE_SEED } from "@/lib/image-generation"
+import { retrieveSources, withKnowledge } from "@/lib/knowledge/retrieval"
+import { getRequestId, logger, REQUEST_ID_HEADER, type Logger } from "@/lib/logger"
+import { loadModelCatalog } from "@/lib/model-catalog"
+import { findModel } from "@/lib/models"
+import { corsHeaders, guardRequest, preflightResponse, rejectionResponse } from "@/lib/request-guard"
+import { createChatRequestSchema, MAX_CHAT_BODY_BYTES, type ChatRequest } from "@/lib/schemas"
+import { encodeSSE } from "@/lib/sse"
+import { getAvailableTools, toBackendTools } from "@/lib/tools"
+import { runToolLoop, type ToolEvent } from "@/lib/tools/loop"
+import type { KnowledgeSource } from "@/lib/types"
+
+// Allow streaming responses up to 30 seconds; backend requests share a shorter deadline (see requestDeadline)
 export const maxDuration = 30
 
-// Helper function to extract AI response from various formats
-function extractAIResponse(data: any, modelName?: string): string {
-  console.log("Extracting response for model:", modelName)
-  console.log("Data structure:", JSON.stringify(data, null, 2))
-
-  // Handle different response formats based on model type
-  if (typeof data === "string") {
-    console.log("Response is plain string")
-    return data
-  }
-
-  // Common Cloudflare AI response formats
-  const possiblePaths = [
-    // Standard Cloudflare AI format
-    "result.response",
-    "result",
-
-    // Alternative formats
-    "response",
-    "text",
-    "content",
-    "answer",
-    "output",
-    "message",
-
-    // OpenAI-style formats (if using compatible models)
-    "choices.0.message.content",
-    "choices.0.text",
-
-    // Anthropic-style formats
-    "completion",
-
-    // Hugging Face style
-    "generated_text",
-
-    // Meta Llama specific
-    "generation",
-    "llama_response",
-
-    // Mistral specific
-    "mistral_response",
-
-    // Google models
-    "candidates.0.content.parts.0.text",
-    "predictions.0.content",
-  ]
-
-  // Try each possible path
-  for (const path of possiblePaths) {
-    const value = getNestedValue(data, path)
-    if (value && typeof value === "string" && value.trim().length > 0) {
-      console.log(`Found response at path: ${path}`)
-      return value
-    }
-  }
-
-  // If no standard path works, try to find any string value in the object
-  const stringValues = findStringValues(data)
-  if (stringValues.length > 0) {
-    // Return the longest string value (likely the main response)
-    const longestString = stringValues.reduce((a, b) => (a.length > b.length ? a : b))
-    console.log("Using longest string value found:", longestString.substring(0, 100) + "...")
-    return longestString
-  }
-
-  // Last resort: stringify the entire object
-  console.log("No suitable response found, stringifying entire object")
-  return JSON.stringify(data, null, 2)
-}
-
-// Helper function to get nested object values
-function getNestedValue(obj: any, path: string): any {
-  return path.split(".").reduce((current, key) => {
-    if (current && typeof current === "object") {
-      return current[key]
-    }
-    return undefined
-  }, obj)
-}
-
-// Helper function to find all string values in an object
-function findStringValues(obj: any, maxDepth = 3, currentDepth = 0): string[] {
-  if (currentDepth > maxDepth) return []
-
-  const strings: string[] = []
-
-  if (typeof obj === "string" && obj.trim().length > 10) {
-    strings.push(obj)
-  } else if (Array.isArray(obj)) {
-    obj.forEach((item) => {
-      strings.push(...findStringValues(item, maxDepth, currentDepth + 1))
-    })
-  } else if (obj && typeof obj === "object") {
-    Object.values(obj).forEach((value) => {
-      strings.push(...findStringValues(value, maxDepth, currentDepth + 1))
-    })
-  }
-
-  return strings
-}
-
 // Helper function to clean and normalize response text
 function cleanResponseText(text: string): string {
   // First, handle literal escape sequences
@@ -130,204 +52,288 @@ function cleanResponseText(text: string): string {
   return cleaned
 }
 
-export async function POST(req: Request) {
-  try {
-    const { messages, model } = await req.json()
-    console.log("=== API ROUTE START ===")
-    console.log("Received messages:", JSON.stringify(messages, null, 2))
-    console.log("Requested model:", model)
-
-    const workerUrl = "https://ai-binding-test.consultchwong.workers.dev" || process.env.CLOUDFLARE_WORKER_URL
-    console.log("Using worker URL:", workerUrl)
-
-    // Get the latest user message
-    const lastMessage = messages[messages.length - 1]
-    const userPrompt = lastMessage?.content || "Hello"
-    console.log("User prompt:", userPrompt)
-
-    console.log("Sending request to worker...")
-    const requestBody = {
-      prompt: userPrompt,
-      ...(model && { model }), // Include model if specified
-    }
+// The request a response stream belongs to
+interface StreamContext {
+  // The model that is answering
+  model: string
+  requestId: string
+  upstream: AbortController
+  deadline: number
+  log: Logger
+  // Knowledge base passages added to the prompt
+  sources?: KnowledgeSource[]
+}
 
-    const response = await fetch(workerUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(requestBody),
-    })
+// Helper function to open a response stream: the answering model, then any knowledge base sources
+function sendStart(
+  controller: ReadableStreamDefaultController<Uint8Array>,
+  { model, requestId, sources }: StreamContext,
+) {
+  controller.enqueue(encodeSSE({ type: "start", model, requestId }))
+  if (sources?.length) controller.enqueue(encodeSSE({ type: "sources", sources }))
+}
 
-    console.log("Worker response status:", response.status)
-    console.log("Worker response headers:", Object.fromEntries(response.headers.entries()))
+// Re-emit the backend's SSE events as text deltas as soon as they arrive, and tool steps as they happen
+function createUpstreamStream(
+  events: AsyncIterable<CompletionEvent | ToolEvent>,
+  context: StreamContext,
+): ReadableStream<Uint8Array> {
+  const { upstream, log } = context
+  return new ReadableStream({
+    async start(controller) {
+      log.debug("Relaying upstream stream")
+      sendStart(controller, context)
+
+      try {
+        for await (const event of events) {
+          if (event.type === "error") log.warn("Reply ended with an error", { reason: event.error })
+          controller.enqueue(encodeSSE(event.type === "error" ? { ...event, category: "upstream_error" } : event))
+        }
+        log.info("Stream complete")
+        controller.close()
+      } catch (error) {
+        // A cancelled request tears down the stream without reporting an error
+        if (upstream.signal.aborted) {
+          log.info("Upstream stream cancelled")
+          return
+        }
+        log.error("Upstream stream failed", { error })
+        controller.error(error)
+      }
+    },
+    cancel() {
+      upstream.abort()
+    },
+  })
+}
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error(`Cloudflare Worker error: ${response.status}`)
-      console.error("Error text:", errorText)
-      return new Response(JSON.stringify({ error: `Worker error: ${errorText}` }), {
-        status: response.status,
-        headers: { "Content-Type": "application/json" },
-      })
-    }
+// Fallback for backends that cannot stream: replay the complete response in chunks
+function createBufferedStream(
+  { text, finishReason, usage }: AdaptedResponse,
+  context: StreamContext,
+): ReadableStream<Uint8Array> {
+  const { upstream, log } = context
+  let aiResponse = text
+
+  // Ensure we have a response
+  if (!aiResponse || aiResponse.trim().length === 0) {
+    aiResponse = "No response received from AI"
+    log.warn("Empty response, using fallback")
+  }
 
-    // Get the complete raw response
-    const responseText = await response.text()
-    console.log("=== RAW WORKER RESPONSE ===")
-    console.log("Response length:", responseText.length)
-    console.log("First 500 chars:", responseText.substring(0, 500))
-    console.log("=== END RAW RESPONSE ===")
-
-    let aiResponse = ""
-
-    try {
-      console.log("Attempting to parse as JSON...")
-      const data = JSON.parse(responseText)
-      console.log("JSON parsing successful!")
-
-      // Extract response using the robust extraction function
-      aiResponse = extractAIResponse(data, model)
-    } catch (jsonError) {
-      console.log("JSON parsing failed:", jsonError.message)
-      console.log("Treating response as plain text")
-      aiResponse = responseText
-    }
+  // Clean up the response
+  const cleanedResponse = cleanResponseText(aiResponse)
+  log.debug("Cleaned response", { responseText: cleanedResponse, length: cleanedResponse.length })
 
-    console.log("=== EXTRACTED AI RESPONSE ===")
-    console.log("AI response length:", aiResponse.length)
-    console.log("First 200 chars:", aiResponse.substring(0, 200))
-    console.log("=== END AI RESPONSE ===")
+  // Pending chunk timer, cleared when the client goes away
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const schedule = (send: () => void, delay: number) => {
+    if (!upstream.signal.aborted) timer = setTimeout(send, delay)
+  }
+  upstream.signal.addEventListener("abort", () => clearTimeout(timer))
+
+  // Create a streaming response that sends chunks of the AI response
+  return new ReadableStream({
+    start(controller) {
+      log.debug("Replaying complete response")
+      sendStart(controller, context)
+
+      // Split the response into paragraphs (double newlines)
+      const paragraphs = cleanedResponse.split(/\n\s*\n/).filter((p) => p.trim().length > 0)
+      let paragraphIndex = 0
+
+      const sendParagraph = () => {
+        if (paragraphIndex < paragraphs.length) {
+          const paragraph = paragraphs[paragraphIndex].trim()
+
+          // For better streaming, split long paragraphs into sentences
+          // But preserve list items and headers as complete units
+          let chunks = []
+
+          // Special handling for different content types
+          if (
+            paragraph.startsWith("#") ||
+            paragraph.match(/^\d+\.\s/) ||
+            paragraph.match(/^\*\s/) ||
+            paragraph.match(/^-\s/)
+          ) {
+            // Headers and list items should be sent as complete units
+            chunks = [paragraph]
+          } else {
+            // Split regular paragraphs into sentences
+            chunks = paragraph
+              .split(/([.!?]+\s+)/)
+              .reduce((acc, part, index, array) => {
+                if (index % 2 === 0) {
+                  // This is a sentence part
+                  const punctuation = array[index + 1] || ""
+                  acc.push((part + punctuation).trim())
+                }
+                return acc
+              }, [])
+              .filter((chunk) => chunk.length > 0)
+          }
 
-    // Ensure we have a response
-    if (!aiResponse || aiResponse.trim().length === 0) {
-      aiResponse = "No response received from AI"
-      console.log("Empty response, using fallback")
-    }
+          let chunkIndex = 0
+
+          const sendChunk = () => {
+            if (chunkIndex < chunks.length) {
+              const chunk = chunks[chunkIndex]
+              const isLastChunk = chunkIndex === chunks.length - 1
+              const isLastParagraph = paragraphIndex === paragraphs.length - 1
+
+              // Add appropriate spacing
+              let textToSend = chunk
+              if (!isLastChunk) {
+                textToSend += " "
+              } else if (!isLastParagraph) {
+                textToSend += "\n\n"
+              }
+
+              controller.enqueue(encodeSSE({ type: "text-delta", textDelta: textToSend }))
 
-    // Clean up the response
-    const cleanedResponse = cleanResponseText(aiResponse)
-
-    console.log("=== CLEANED RESPONSE ===")
-    console.log("Cleaned response length:", cleanedResponse.length)
-    console.log("First 300 chars:", cleanedResponse.substring(0, 300))
-    console.log("=== END CLEANED RESPONSE ===")
-
-    // Create a streaming response that sends chunks of the AI response
-    const encoder = new TextEncoder()
-
-    const stream = new ReadableStream({
-      start(controller) {
-        console.log("Starting stream...")
-
-        // Split the response into paragraphs (double newlines)
-        const paragraphs = cleanedResponse.split(/\n\s*\n/).filter((p) => p.trim().length > 0)
-        let paragraphIndex = 0
-
-        const sendParagraph = () => {
-          if (paragraphIndex < paragraphs.length) {
-            const paragraph = paragraphs[paragraphIndex].trim()
-
-            // For better streaming, split long paragraphs into sentences
-            // But preserve list items and headers as complete units
-            let chunks = []
-
-            // Special handling for different content types
-            if (
-              paragraph.startsWith("#") ||
-              paragraph.match(/^\d+\.\s/) ||
-              paragraph.match(/^\*\s/) ||
-              paragraph.match(/^-\s/)
-            ) {
-              // Headers and list items should be sent as complete units
-              chunks = [paragraph]
+              chunkIndex++
+              // Adjust timing based on content type and length
+              const delay = chunk.startsWith("#") ? 200 : Math.min(400, Math.max(100, chunk.length * 8))
+              schedule(sendChunk, delay)
             } else {
-              // Split regular paragraphs into sentences
-              chunks = paragraph
-                .split(/([.!?]+\s+)/)
-                .reduce((acc, part, index, array) => {
-                  if (index % 2 === 0) {
-                    // This is a sentence part
-                    const punctuation = array[index + 1] || ""
-                    acc.push((part + punctuation).trim())
-                  }
-                  return acc
-                }, [])
-                .filter((chunk) => chunk.length > 0)
+              paragraphIndex++
+              schedule(sendParagraph, 300)
             }
+          }
 
-            let chunkIndex = 0
+          sendChunk()
+        } else {
+          log.info("Stream complete")
+          // Send completion signal
+          controller.enqueue(encodeSSE({ type: "finish", finishReason, usage }))
+          controller.close()
+        }
+      }
+
+      sendParagraph()
+    },
+    cancel() {
+      upstream.abort()
+    },
+  })
+}
 
-            const sendChunk = () => {
-              if (chunkIndex < chunks.length) {
-                const chunk = chunks[chunkIndex]
-                const isLastChunk = chunkIndex === chunks.length - 1
-                const isLastParagraph = paragraphIndex === paragraphs.length - 1
+// Generate an image from the last user message and send it as a single `image` event
+async function createImageStream(
+  { messages, params }: ChatRequest,
+  { model, requestId, upstream, deadline, log }: StreamContext,
+): Promise<ReadableStream<Uint8Array>> {
+  const prompt = messages[messages.length - 1].content
+  // Pick a seed when none is set, so the image can be reproduced
+  const seed = params.seed ?? Math.floor(Math.random() * MAX_IMAGE_SEED) + 1
+  const image = await requestImage({ prompt, model, seed, upstream, deadline, log })
+  log.info("Image generated", { mimeType: image.mimeType, width: image.width, height: image.height })
+
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(encodeSSE({ type: "start", model, requestId }))
+      controller.enqueue(encodeSSE({ type: "image", image }))
+      controller.enqueue(encodeSSE({ type: "finish", finishReason: "stop" }))
+      controller.close()
+    },
+  })
+}
 
-                // Add appropriate spacing
-                let textToSend = chunk
-                if (!isLastChunk) {
-                  textToSend += " "
-                } else if (!isLastParagraph) {
-                  textToSend += "\n\n"
-                }
+export async function OPTIONS(req: Request) {
+  return preflightResponse(req, "POST")
+}
 
-                // Create a proper Server-Sent Events format
-                const sseChunk = `data: ${JSON.stringify({
-                  type: "text-delta",
-                  textDelta: textToSend,
-                })}\n\n`
-
-                console.log(
-                  `Sending chunk ${chunkIndex + 1}/${chunks.length} from paragraph ${paragraphIndex + 1}/${paragraphs.length}`,
-                )
-
-                controller.enqueue(encoder.encode(sseChunk))
-
-                chunkIndex++
-                // Adjust timing based on content type and length
-                const delay = chunk.startsWith("#") ? 200 : Math.min(400, Math.max(100, chunk.length * 8))
-                setTimeout(sendChunk, delay)
-              } else {
-                paragraphIndex++
-                setTimeout(sendParagraph, 300)
-              }
-            }
+export async function POST(req: Request) {
+  const requestId = getRequestId(req)
+  const response = await handleChat(req, requestId, logger.child({ requestId, route: "/api/chat" }))
+  response.headers.set(REQUEST_ID_HEADER, requestId)
+  return response
+}
 
-            sendChunk()
-          } else {
-            console.log("Stream complete, closing...")
-            // Send completion signal
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "finish" })}\n\n`))
-            controller.close()
-          }
-        }
+async function handleChat(req: Request, requestId: string, log: Logger): Promise<Response> {
+  // Only signed-in callers within their rate limits may spend model quota
+  const { rejection } = guardRequest(req, { rateLimit: true })
+  if (rejection) return rejectionResponse(rejection)
 
-        sendParagraph()
-      },
+  // Reject malformed requests with field-level details before spending model quota
+  const models = await loadModelCatalog()
+  const { data: request, error: invalid } = await parseJsonBody(req, createChatRequestSchema(models), {
+    maxBytes: MAX_CHAT_BODY_BYTES,
+  })
+  if (invalid) return invalid
+
+  try {
+    const { messages, model, fallback, knowledge, tools } = request
+    let { params } = request
+    log.info("Chat request", { model, messageCount: messages.length, fallback, knowledge, tools, params, messages })
+
+    // Cancel the backend request when the client disconnects or the response stream is cancelled
+    const upstream = new AbortController()
+    req.signal.addEventListener("abort", () => upstream.abort())
+    // Retries, fallbacks, knowledge retrieval and tool rounds all share one deadline, well within maxDuration
+    const deadline = requestDeadline()
+
+    // Text-to-image models answer with an image instead of text
+    if (findModel(models, model)?.task === "text-to-image") {
+      const stream = await createImageStream(request, { model, requestId, upstream, deadline, log })
+      return new Response(stream, {
+        headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", ...corsHeaders(req) },
+      })
+    }
+
+    // Answer from the knowledge base: the closest passages go into the system prompt as numbered sources
+    const question = messages[messages.length - 1].content
+    const sources = knowledge ? await retrieveSources(question, { upstream, deadline, log }) : []
+    params = { ...params, systemPrompt: withKnowledge(params.systemPrompt, sources) }
+
+    // With tools, the model's calls are run on the server until it answers (see lib/tools/loop.ts)
+    const toolset = tools ? getAvailableTools() : []
+    const backendTools = toolset.length > 0 ? toBackendTools(toolset) : undefined
+    const answered = await requestCompletion({
+      messages,
+      model,
+      params,
+      fallback,
+      tools: backendTools,
+      upstream,
+      deadline,
+      log,
     })
+    if (answered.model !== model) log.info("Answered by fallback model", { model: answered.model })
+
+    const { response, adapter } = answered
+    const context = { model: answered.model, requestId, upstream, deadline, log, sources }
+    const toolRequest = { messages, params, tools: toolset, upstream, deadline, log }
+    const stream = backendTools
+      ? createUpstreamStream(runToolLoop(answered, toolRequest), context)
+      : isEventStream(response)
+        ? createUpstreamStream(readUpstreamEvents(response.body as ReadableStream<Uint8Array>, adapter, log), context)
+        : createBufferedStream(readBufferedResponse(await response.text(), adapter, log), context)
 
     return new Response(stream, {
       headers: {
         "Content-Type": "text/event-stream",
         "Cache-Control": "no-cache",
         Connection: "keep-alive",
-        "Access-Control-Allow-Origin": "*",
+        ...corsHeaders(req),
       },
     })
   } catch (error) {
-    console.error("=== API ERROR ===")
-    console.error("Error:", error)
-    console.error("=== END API ERROR ===")
-
-    return new Response(
-      JSON.stringify({
-        error: `Internal server error: ${error.message}`,
-      }),
-      {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      },
-    )
+    if (req.signal.aborted) {
+      log.info("Request cancelled by the client")
+      return new Response(null, { status: 499 })
+    }
+
+    const backendError = backendErrorResponse(error, log)
+    if (backendError) return backendError
+
+    // The error is logged; its message may hold internal details, so the client only learns that the request failed
+    log.error("Chat request failed", { error })
+
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    })
   }
 }
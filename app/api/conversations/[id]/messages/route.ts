@@ -0,0 +1,28 @@
+import { errorResponse, jsonResponse, parseJsonBody } from "@/lib/http"
+import { logger } from "@/lib/logger"
+import { guardRequest, rejectionResponse } from "@/lib/request-guard"
+import { MAX_CONVERSATION_BODY_BYTES, messageSchema } from "@/lib/schemas"
+import { getConversationStore } from "@/lib/storage"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Append a single message to a conversation; it continues the current branch unless it names a parentId
+export async function POST(req: Request, { params }: RouteContext) {
+  const { user, rejection } = guardRequest(req)
+  if (rejection) return rejectionResponse(rejection)
+
+  const { id } = await params
+  const { data, error } = await parseJsonBody(req, messageSchema, { maxBytes: MAX_CONVERSATION_BODY_BYTES })
+  if (error) return error
+
+  try {
+    const conversation = await getConversationStore().appendMessage(user.id, id, data)
+    if (!conversation) return errorResponse(404, `Conversation ${id} not found`)
+    return jsonResponse({ conversation }, 201)
+  } catch (error) {
+    logger.error("Failed to append message", { error })
+    return errorResponse(500, "Failed to append message")
+  }
+}
@@ -0,0 +1,57 @@
+import { errorResponse, jsonResponse, parseJsonBody } from "@/lib/http"
+import { logger } from "@/lib/logger"
+import { guardRequest, rejectionResponse } from "@/lib/request-guard"
+import { MAX_CONVERSATION_BODY_BYTES, updateConversationSchema } from "@/lib/schemas"
+import { getConversationStore } from "@/lib/storage"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(req: Request, { params }: RouteContext) {
+  const { user, rejection } = guardRequest(req)
+  if (rejection) return rejectionResponse(rejection)
+
+  const { id } = await params
+  try {
+    const conversation = await getConversationStore().get(user.id, id)
+    if (!conversation) return errorResponse(404, `Conversation ${id} not found`)
+    return jsonResponse({ conversation })
+  } catch (error) {
+    logger.error("Failed to read conversation", { error })
+    return errorResponse(500, "Failed to read conversation")
+  }
+}
+
+// Update title, pinned state, model, generation settings, messages or the current branch
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { user, rejection } = guardRequest(req)
+  if (rejection) return rejectionResponse(rejection)
+
+  const { id } = await params
+  const { data, error } = await parseJsonBody(req, updateConversationSchema, { maxBytes: MAX_CONVERSATION_BODY_BYTES })
+  if (error) return error
+
+  try {
+    const conversation = await getConversationStore().update(user.id, id, data)
+    if (!conversation) return errorResponse(404, `Conversation ${id} not found`)
+    return jsonResponse({ conversation })
+  } catch (error) {
+    logger.error("Failed to update conversation", { error })
+    return errorResponse(500, "Failed to update conversation")
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const { user, rejection } = guardRequest(req)
+  if (rejection) return rejectionResponse(rejection)
+
+  const { id } = await params
+  try {
+    if (!(await getConversationStore().delete(user.id, id))) return errorResponse(404, `Conversation ${id} not found`)
+    return new Response(null, { status: 204 })
+  } catch (error) {
+    logger.error("Failed to delete conversation", { error })
+    return errorResponse(500, "Failed to delete conversation")
+  }
+}
@@ -0,0 +1,36 @@
+import { errorResponse, jsonResponse, parseJsonBody } from "@/lib/http"
+import { logger } from "@/lib/logger"
+import { guardRequest, rejectionResponse } from "@/lib/request-guard"
+import { createConversationSchema, MAX_CONVERSATION_BODY_BYTES } from "@/lib/schemas"
+import { getConversationStore } from "@/lib/storage"
+
+// List the caller's saved conversations (without their messages)
+export async function GET(req: Request) {
+  const { user, rejection } = guardRequest(req)
+  if (rejection) return rejectionResponse(rejection)
+
+  try {
+    return jsonResponse({ conversations: await getConversationStore().list(user.id) })
+  } catch (error) {
+    logger.error("Failed to list conversations", { error })
+    return errorResponse(500, "Failed to list conversations")
+  }
+}
+
+// Create a conversation, optionally with initial messages
+export async function POST(req: Request) {
+  const { user, rejection } = guardRequest(req)
+  if (rejection) return rejectionResponse(rejection)
+
+  const { data, error } = await parseJsonBody(req, createConversationSchema, { maxBytes: MAX_CONVERSATION_BODY_BYTES })
+  if (error) return error
+
+  try {
+    const conversation = await getConversationStore().create(user.id, data)
+    if (!conversation) return errorResponse(409, `Conversation ${data.id} already exists`)
+    return jsonResponse({ conversation }, 201)
+  } catch (error) {
+    logger.error("Failed to create conversation", { error })
+    return errorResponse(500, "Failed to create conversation")
+  }
+}
@@ -0,0 +1,23 @@
+import { errorResponse } from "@/lib/http"
+import { getKnowledgeStore } from "@/lib/knowledge"
+import { logger } from "@/lib/logger"
+import { guardRequest, rejectionResponse } from "@/lib/request-guard"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Remove a document and its chunks from the knowledge base
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const { rejection } = guardRequest(req)
+  if (rejection) return rejectionResponse(rejection)
+
+  const { id } = await params
+  try {
+    if (!(await getKnowledgeStore().deleteDocument(id))) return errorResponse(404, `Document ${id} not found`)
+    return new Response(null, { status: 204 })
+  } catch (error) {
+    logger.error("Failed to delete knowledge base document", { error })
+    return errorResponse(500, "Failed to delete knowledge base document")
+  }
+}
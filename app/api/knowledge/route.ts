@@ -0,0 +1,62 @@
+import { AttachmentError, extractFileText } from "@/lib/attachment-text"
+import { MAX_ATTACHMENT_BYTES } from "@/lib/attachments"
+import { backendErrorResponse, errorResponse, jsonResponse, parseFormBody } from "@/lib/http"
+import { getKnowledgeStore } from "@/lib/knowledge"
+import { ingestDocument, KnowledgeError, MAX_DOCUMENT_CHARS } from "@/lib/knowledge/retrieval"
+import { getRequestId, logger, REQUEST_ID_HEADER, type Logger } from "@/lib/logger"
+import { guardRequest, rejectionResponse } from "@/lib/request-guard"
+
+// Longest document name, including the folder path of a file from an added folder
+const MAX_DOCUMENT_NAME_CHARS = 255
+
+// List the documents in the knowledge base, newest first
+export async function GET(req: Request) {
+  const { rejection } = guardRequest(req)
+  if (rejection) return rejectionResponse(rejection)
+
+  try {
+    return jsonResponse({ documents: await getKnowledgeStore().listDocuments() })
+  } catch (error) {
+    logger.error("Failed to list knowledge base documents", { error })
+    return errorResponse(500, "Failed to list knowledge base documents")
+  }
+}
+
+// Add a file (multipart field "file") to the knowledge base; "path" names it when it comes from a folder
+export async function POST(req: Request) {
+  const requestId = getRequestId(req)
+  const response = await handleUpload(req, logger.child({ requestId, route: "/api/knowledge" }))
+  response.headers.set(REQUEST_ID_HEADER, requestId)
+  return response
+}
+
+async function handleUpload(req: Request, log: Logger): Promise<Response> {
+  // Embedding a document spends model quota like a chat request
+  const { rejection } = guardRequest(req, { rateLimit: true })
+  if (rejection) return rejectionResponse(rejection)
+
+  const { form, error: invalid } = await parseFormBody(req, MAX_ATTACHMENT_BYTES)
+  if (invalid) return invalid
+  const file = form.get("file")
+  if (!(file instanceof File)) return errorResponse(400, 'Expected a file in the "file" field')
+  const folderPath = form.get("path")
+  const name = (typeof folderPath === "string" && folderPath.trim()) || file.name
+  if (name.length > MAX_DOCUMENT_NAME_CHARS) return errorResponse(400, "File name is too long")
+
+  try {
+    const upstream = new AbortController()
+    req.signal.addEventListener("abort", () => upstream.abort())
+
+    const { kind, text } = await extractFileText(file, MAX_DOCUMENT_CHARS)
+    const document = await ingestDocument({ name, kind, size: file.size, text }, { upstream, log })
+    return jsonResponse({ document }, 201)
+  } catch (error) {
+    if (error instanceof AttachmentError || error instanceof KnowledgeError) return errorResponse(400, error.message)
+
+    const backendError = backendErrorResponse(error, log)
+    if (backendError) return backendError
+
+    log.error("Failed to add document to the knowledge base", { error, name })
+    return errorResponse(500, "Failed to add document to the knowledge base")
+  }
+}
@@ -0,0 +1,12 @@
+import { renderMetrics } from "@/lib/metrics"
+import { guardRequest, rejectionResponse } from "@/lib/request-guard"
+
+// Backend metrics for Prometheus; when authentication is on, scrape with an API key
+export async function GET(req: Request) {
+  const { rejection } = guardRequest(req)
+  if (rejection) return rejectionResponse(rejection)
+
+  return new Response(renderMetrics(), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8", "Cache-Control": "no-store" },
+  })
+}
@@ -0,0 +1,10 @@
+import { jsonResponse } from "@/lib/http"
+import { loadModelCatalog } from "@/lib/model-catalog"
+import { DEFAULT_MODEL_ID } from "@/lib/models"
+
+// List the models this deployment offers, with their capabilities
+export async function GET() {
+  const models = await loadModelCatalog()
+  const defaultModel = models.some((model) => model.id === DEFAULT_MODEL_ID) ? DEFAULT_MODEL_ID : models[0]?.id
+  return jsonResponse({ models, defaultModel })
+}
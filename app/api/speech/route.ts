@@ -0,0 +1,63 @@
+import { requestDeadline, requestSpeech } from "@/lib/chat-backend"
+import { backendErrorResponse, errorResponse, jsonResponse, parseJsonBody } from "@/lib/http"
+import { getRequestId, logger, REQUEST_ID_HEADER, type Logger } from "@/lib/logger"
+import { loadModelCatalog } from "@/lib/model-catalog"
+import { findTaskModel } from "@/lib/models"
+import { guardRequest, rejectionResponse } from "@/lib/request-guard"
+import { speechRequestSchema } from "@/lib/schemas"
+
+// Allow speech up to 30 seconds; backend requests share a shorter deadline (see requestDeadline)
+export const maxDuration = 30
+
+// Read text aloud with a text-to-speech model; the response body is the audio
+export async function POST(req: Request) {
+  const requestId = getRequestId(req)
+  const response = await handleSpeech(req, logger.child({ requestId, route: "/api/speech" }))
+  response.headers.set(REQUEST_ID_HEADER, requestId)
+  return response
+}
+
+async function handleSpeech(req: Request, log: Logger): Promise<Response> {
+  // Speech spends model quota like a chat request
+  const { rejection } = guardRequest(req, { rateLimit: true })
+  if (rejection) return rejectionResponse(rejection)
+
+  const { data: request, error: invalid } = await parseJsonBody(req, speechRequestSchema)
+  if (invalid) return invalid
+
+  // Without a text-to-speech model the client falls back to the browser's speech synthesis
+  const model = findTaskModel(await loadModelCatalog(), "text-to-speech", request.model)
+  if (!model) {
+    return request.model
+      ? errorResponse(400, `Unknown text-to-speech model "${request.model}"`)
+      : jsonResponse({ error: "No text-to-speech model is available", category: "model_unavailable" }, 503)
+  }
+
+  try {
+    const upstream = new AbortController()
+    req.signal.addEventListener("abort", () => upstream.abort())
+
+    const { audio, mimeType } = await requestSpeech({
+      text: request.text,
+      model: model.id,
+      upstream,
+      deadline: requestDeadline(),
+      log,
+    })
+    log.info("Speech generated", { model: model.id, length: request.text.length, bytes: audio.length, mimeType })
+    return new Response(new Uint8Array(audio), {
+      headers: { "Content-Type": mimeType, "Cache-Control": "no-store" },
+    })
+  } catch (error) {
+    if (req.signal.aborted) {
+      log.info("Request cancelled by the client")
+      return new Response(null, { status: 499 })
+    }
+
+    const backendError = backendErrorResponse(error, log)
+    if (backendError) return backendError
+
+    log.error("Speech generation failed", { error })
+    return errorResponse(500, "Failed to generate speech")
+  }
+}
@@ -0,0 +1,75 @@
+import { requestDeadline, requestTranscription } from "@/lib/chat-backend"
+import { backendErrorResponse, errorResponse, jsonResponse, parseFormBody } from "@/lib/http"
+import { getRequestId, logger, REQUEST_ID_HEADER, type Logger } from "@/lib/logger"
+import { loadModelCatalog } from "@/lib/model-catalog"
+import { findTaskModel } from "@/lib/models"
+import { guardRequest, rejectionResponse } from "@/lib/request-guard"
+import { MAX_AUDIO_BYTES } from "@/lib/speech"
+
+// Allow transcriptions up to 30 seconds; backend requests share a shorter deadline (see requestDeadline)
+export const maxDuration = 30
+
+// Transcribe a recording (multipart field "audio", optional field "model") with a speech-to-text model
+export async function POST(req: Request) {
+  const requestId = getRequestId(req)
+  const response = await handleTranscription(req, logger.child({ requestId, route: "/api/transcribe" }))
+  response.headers.set(REQUEST_ID_HEADER, requestId)
+  return response
+}
+
+async function handleTranscription(req: Request, log: Logger): Promise<Response> {
+  // Transcription spends model quota like a chat request
+  const { rejection } = guardRequest(req, { rateLimit: true })
+  if (rejection) return rejectionResponse(rejection)
+
+  const { form, error: invalid } = await parseFormBody(req, MAX_AUDIO_BYTES)
+  if (invalid) return invalid
+  const audio = form.get("audio")
+  if (!(audio instanceof Blob)) return errorResponse(400, 'Expected a recording in the "audio" field')
+  if (audio.size === 0) return errorResponse(400, "The recording is empty")
+  if (audio.size > MAX_AUDIO_BYTES) {
+    return errorResponse(400, `Recordings must be at most ${MAX_AUDIO_BYTES / (1024 * 1024)} MB`)
+  }
+
+  const requested = form.get("model")
+  const model = findTaskModel(
+    await loadModelCatalog(),
+    "automatic-speech-recognition",
+    typeof requested === "string" ? requested : undefined,
+  )
+  if (!model) {
+    return typeof requested === "string"
+      ? errorResponse(400, `Unknown speech-to-text model "${requested}"`)
+      : jsonResponse({ error: "No speech-to-text model is available", category: "model_unavailable" }, 503)
+  }
+
+  try {
+    const upstream = new AbortController()
+    req.signal.addEventListener("abort", () => upstream.abort())
+
+    // Browsers label recordings like "audio/webm;codecs=opus"; backends want the bare type
+    const mimeType = audio.type.split(";")[0] || "application/octet-stream"
+    const bytes = new Uint8Array(await audio.arrayBuffer())
+    const text = await requestTranscription({
+      audio: bytes,
+      mimeType,
+      model: model.id,
+      upstream,
+      deadline: requestDeadline(),
+      log,
+    })
+    log.info("Recording transcribed", { model: model.id, bytes: audio.size, length: text.length })
+    return jsonResponse({ text, model: model.id })
+  } catch (error) {
+    if (req.signal.aborted) {
+      log.info("Request cancelled by the client")
+      return new Response(null, { status: 499 })
+    }
+
+    const backendError = backendErrorResponse(error, log)
+    if (backendError) return backendError
+
+    log.error("Transcription failed", { error })
+    return errorResponse(500, "Failed to transcribe the recording")
+  }
+}
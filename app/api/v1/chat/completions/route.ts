@@ -0,0 +1,209 @@
+import { UpstreamResponseError, type Usage } from "@/lib/adapters"
+import { formatFileSize } from "@/lib/attachments"
+import { readCompletionEvents, requestCompletion, requestDeadline, type CompletionEvent } from "@/lib/chat-backend"
+import { validateGenerationParams } from "@/lib/generation"
+import { describeBackendError, jsonResponse, readLimitedBody } from "@/lib/http"
+import { getRequestId, logger, REQUEST_ID_HEADER, type Logger } from "@/lib/logger"
+import { loadModelCatalog } from "@/lib/model-catalog"
+import { findModel } from "@/lib/models"
+import {
+  newCompletionIdentity,
+  openAIErrorResponse,
+  toChatMessages,
+  toCompletion,
+  toCompletionChunk,
+  toGenerationParams,
+  toOpenAIUsage,
+  type CompletionIdentity,
+} from "@/lib/openai-compat"
+import { corsHeaders, guardRequest, preflightResponse } from "@/lib/request-guard"
+import { createOpenAIChatCompletionSchema, MAX_CHAT_BODY_BYTES } from "@/lib/schemas"
+import { encodeSSE, encodeSSEDone } from "@/lib/sse"
+
+// Allow streaming responses up to 30 seconds; backend requests share a shorter deadline (see requestDeadline)
+export const maxDuration = 30
+
+// Stream events as `chat.completion.chunk` objects, ending with `[DONE]`
+function createChunkStream(
+  events: AsyncIterable<CompletionEvent>,
+  identity: CompletionIdentity,
+  includeUsage: boolean,
+  upstream: AbortController,
+  log: Logger,
+): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    async start(controller) {
+      controller.enqueue(encodeSSE(toCompletionChunk(identity, { role: "assistant", content: "" })))
+
+      try {
+        for await (const event of events) {
+          if (event.type === "text-delta") {
+            controller.enqueue(encodeSSE(toCompletionChunk(identity, { content: event.textDelta })))
+          } else if (event.type === "finish") {
+            controller.enqueue(encodeSSE(toCompletionChunk(identity, {}, event.finishReason || "stop")))
+            if (includeUsage && event.usage) {
+              const usageChunk = { ...toCompletionChunk(identity, {}), choices: [], usage: toOpenAIUsage(event.usage) }
+              controller.enqueue(encodeSSE(usageChunk))
+            }
+          } else {
+            // Errors after the stream has started can only be reported in-band
+            const error = { message: event.error, type: "server_error", code: "upstream_error" }
+            controller.enqueue(encodeSSE({ error }))
+            controller.close()
+            return
+          }
+        }
+        controller.enqueue(encodeSSEDone())
+        controller.close()
+      } catch (error) {
+        if (upstream.signal.aborted) {
+          log.info("Upstream stream cancelled")
+          return
+        }
+        log.error("Upstream stream failed", { error })
+        controller.error(error)
+      }
+    },
+    cancel() {
+      upstream.abort()
+    },
+  })
+}
+
+// Prepend an event that has already been read
+async function* withFirstEvent(
+  first: IteratorResult<CompletionEvent>,
+  rest: AsyncIterator<CompletionEvent>,
+): AsyncGenerator<CompletionEvent> {
+  if (first.done) return
+  yield first.value
+  while (true) {
+    const next = await rest.next()
+    if (next.done) return
+    yield next.value
+  }
+}
+
+export async function OPTIONS(req: Request) {
+  return preflightResponse(req, "POST")
+}
+
+// OpenAI-compatible chat completions, forwarded to the same backends as /api/chat
+export async function POST(req: Request) {
+  const requestId = getRequestId(req)
+  const response = await createCompletion(req, logger.child({ requestId, route: "/api/v1/chat/completions" }))
+  // Every answer, errors included, must be readable by the allowed origins
+  for (const [name, value] of Object.entries(corsHeaders(req))) response.headers.set(name, value)
+  response.headers.set(REQUEST_ID_HEADER, requestId)
+  return response
+}
+
+async function createCompletion(req: Request, log: Logger): Promise<Response> {
+  const { rejection } = guardRequest(req, { rateLimit: true })
+  if (rejection) {
+    return openAIErrorResponse(rejection.status, rejection.message, rejection.category, rejection.headers)
+  }
+
+  let body: unknown
+  try {
+    const bytes = await readLimitedBody(req, MAX_CHAT_BODY_BYTES)
+    if (!bytes) {
+      return openAIErrorResponse(413, `Request body must be at most ${formatFileSize(MAX_CHAT_BODY_BYTES)}`)
+    }
+    body = JSON.parse(new TextDecoder().decode(bytes))
+  } catch {
+    return openAIErrorResponse(400, "Request body must be valid JSON")
+  }
+
+  // Only chat models from the catalog are served, with the same size limits as /api/chat
+  const models = await loadModelCatalog()
+  const parsed = createOpenAIChatCompletionSchema(models).safeParse(body)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return openAIErrorResponse(400, `Invalid request: ${issue.path.join(".") || "body"}: ${issue.message}`)
+  }
+
+  const request = parsed.data
+  log.info("Chat completion request", {
+    model: request.model,
+    messageCount: request.messages.length,
+    stream: !!request.stream,
+  })
+  const { messages, systemPrompt } = toChatMessages(request.messages)
+  const params = toGenerationParams(request, systemPrompt)
+
+  // Tools send long system prompts, so only the numeric parameters are checked here
+  const paramErrors = validateGenerationParams({ ...params, systemPrompt: undefined }, findModel(models, request.model))
+  const [invalidParam] = Object.entries(paramErrors)
+  if (invalidParam) {
+    return openAIErrorResponse(400, `Invalid ${invalidParam[0]}: ${invalidParam[1]}`, "bad_request")
+  }
+
+  // Cancel the backend request when the client disconnects or the response stream is cancelled
+  const upstream = new AbortController()
+  req.signal.addEventListener("abort", () => upstream.abort())
+
+  try {
+    const { response, model, adapter } = await requestCompletion({
+      messages,
+      model: request.model,
+      params,
+      fallback: false,
+      upstream,
+      deadline: requestDeadline(),
+      log,
+    })
+    const identity = newCompletionIdentity(model)
+    const events = readCompletionEvents(response, adapter, log)
+
+    if (request.stream) {
+      // Read the first event up front so a rejected response still gets an HTTP error status
+      const first = await events.next()
+      if (!first.done && first.value.type === "error") throw new UpstreamResponseError()
+
+      return new Response(
+        createChunkStream(
+          withFirstEvent(first, events),
+          identity,
+          !!request.stream_options?.include_usage,
+          upstream,
+          log,
+        ),
+        {
+          headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+          },
+        },
+      )
+    }
+
+    let content = ""
+    let finishReason = "stop"
+    let usage: Usage | undefined
+    for await (const event of events) {
+      if (event.type === "error") throw new UpstreamResponseError()
+      if (event.type === "text-delta") content += event.textDelta
+      if (event.type === "finish") {
+        finishReason = event.finishReason || finishReason
+        usage = event.usage
+      }
+    }
+    return jsonResponse(toCompletion(identity, content, finishReason, usage))
+  } catch (error) {
+    if (req.signal.aborted) {
+      log.info("Request cancelled by the client")
+      return new Response(null, { status: 499 })
+    }
+
+    const backendError = describeBackendError(error, log)
+    if (backendError) {
+      const { status, message, category, headers } = backendError
+      return openAIErrorResponse(status, message, category, headers)
+    }
+
+    log.error("Chat completion failed", { error })
+    return openAIErrorResponse(500, "Internal server error")
+  }
+}
@@ -0,0 +1,22 @@
+import { jsonResponse } from "@/lib/http"
+import { loadModelCatalog } from "@/lib/model-catalog"
+import { openAIErrorResponse } from "@/lib/openai-compat"
+import { corsHeaders, guardRequest, preflightResponse } from "@/lib/request-guard"
+
+export async function OPTIONS(req: Request) {
+  return preflightResponse(req, "GET")
+}
+
+// List the chat models in the OpenAI `/v1/models` format
+export async function GET(req: Request) {
+  const { rejection } = guardRequest(req)
+  if (rejection) {
+    return openAIErrorResponse(rejection.status, rejection.message, rejection.category, rejection.headers)
+  }
+
+  const models = await loadModelCatalog()
+  const data = models
+    .filter((model) => model.task === "text-generation")
+    .map((model) => ({ id: model.id, object: "model", created: 0, owned_by: model.provider }))
+  return jsonResponse({ object: "list", data }, 200, corsHeaders(req))
+}
@@ -0,0 +1,178 @@
+"use client"
+import { useEffect, useRef, useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, FilePlus, FolderPlus, Loader2, Trash2 } from "lucide-react"
+import { ATTACHMENT_ACCEPT, formatFileSize, getAttachmentKind } from "@/lib/attachments"
+import { addKnowledgeDocument, deleteKnowledgeDocument, listKnowledgeDocuments } from "@/lib/chat-client"
+import type { KnowledgeDocument } from "@/lib/types"
+
+export default function KnowledgePage() {
+  const [documents, setDocuments] = useState<KnowledgeDocument[] | null>(null)
+  // Name of the file being added, and how many are left after it
+  const [progress, setProgress] = useState<{ name: string; remaining: number } | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    listKnowledgeDocuments()
+      .then(setDocuments)
+      .catch((error) => setErrors([`Could not load the knowledge base: ${error.message}`]))
+  }, [])
+
+  // React has no prop for picking folders
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "")
+  }, [])
+
+  // Add files one at a time, since each is embedded before the next starts; unsupported files in folders are skipped
+  const addFiles = async (files: File[]) => {
+    const supported = files.filter((file) => getAttachmentKind(file.name, file.type))
+    const skipped = files.length - supported.length
+    setErrors(skipped > 0 ? [`Skipped ${skipped} file${skipped === 1 ? "" : "s"} of an unsupported type`] : [])
+
+    for (const [index, file] of supported.entries()) {
+      // Files from a folder are named by their path within it
+      const path = file.webkitRelativePath || undefined
+      setProgress({ name: path || file.name, remaining: supported.length - index - 1 })
+      try {
+        const document = await addKnowledgeDocument(file, path)
+        setDocuments((prev) => [document, ...(prev || [])])
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : "unknown error"
+        setErrors((prev) => [...prev, `Could not add ${path || file.name}: ${reason}`])
+      }
+    }
+    setProgress(null)
+  }
+
+  const removeDocument = async (document: KnowledgeDocument) => {
+    try {
+      await deleteKnowledgeDocument(document.id)
+      setDocuments((prev) => (prev || []).filter((item) => item.id !== document.id))
+    } catch (error) {
+      setErrors([`Could not remove ${document.name}: ${error instanceof Error ? error.message : "unknown error"}`])
+    }
+  }
+
+  const pickFiles = (input: HTMLInputElement) => {
+    void addFiles(Array.from(input.files || []))
+    input.value = ""
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <Card className="mx-auto w-full max-w-4xl">
+        <CardHeader className="border-b">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" className="p-2" title="Back to chat" asChild>
+                <a href="/">
+                  <ArrowLeft className="h-4 w-4" />
+                </a>
+              </Button>
+              <div>
+                <CardTitle>Knowledge Base</CardTitle>
+                <p className="text-sm text-gray-500">Documents the chat can answer from and cite</p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ATTACHMENT_ACCEPT}
+                className="hidden"
+                onChange={(e) => pickFiles(e.target)}
+              />
+              <input ref={folderInputRef} type="file" className="hidden" onChange={(e) => pickFiles(e.target)} />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!!progress}
+              >
+                <FilePlus className="h-4 w-4" />
+                Add files
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => folderInputRef.current?.click()}
+                disabled={!!progress}
+              >
+                <FolderPlus className="h-4 w-4" />
+                Add folder
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4 pt-6">
+          {progress && (
+            <p className="flex items-center text-sm text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              Adding {progress.name}
+              {progress.remaining > 0 && ` (${progress.remaining} more to go)`}...
+            </p>
+          )}
+
+          {errors.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-md text-sm space-y-1">
+              {errors.map((error, index) => (
+                <p key={index}>{error}</p>
+              ))}
+            </div>
+          )}
+
+          {documents === null ? (
+            <p className="text-sm text-gray-400">Loading...</p>
+          ) : documents.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              No documents yet. Add text, Markdown, CSV, code or PDF files, or a whole folder of them.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-2 font-medium">Document</th>
+                  <th className="py-2 font-medium text-right">Size</th>
+                  <th className="py-2 font-medium text-right">Chunks</th>
+                  <th className="py-2 font-medium text-right">Added</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {documents.map((document) => (
+                  <tr key={document.id} className="border-t">
+                    <td className="py-2 pr-2 max-w-[20rem] truncate" title={document.name}>
+                      {document.name}
+                    </td>
+                    <td className="py-2 text-right tabular-nums">{formatFileSize(document.size)}</td>
+                    <td className="py-2 text-right tabular-nums">{document.chunkCount}</td>
+                    <td className="py-2 text-right text-gray-500">
+                      {new Date(document.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => removeDocument(document)}
+                        title="Remove from the knowledge base"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
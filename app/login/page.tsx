@@ -0,0 +1,102 @@
+"use client"
+import { useEffect, useState } from "react"
+import type React from "react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { KeyRound, Loader2, LogIn } from "lucide-react"
+import { useSession } from "@/hooks/use-session"
+
+export default function LoginPage() {
+  const { session } = useSession()
+  const [password, setPassword] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Errors from the single sign-on callback arrive in the query string
+  useEffect(() => {
+    const callbackError = new URLSearchParams(window.location.search).get("error")
+    if (callbackError) setError(callbackError)
+  }, [])
+
+  // Nothing to do here once signed in, or when the server does not require it
+  useEffect(() => {
+    if (session && (!session.authRequired || session.user)) window.location.href = "/"
+  }, [session])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!password || isSubmitting) return
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+      window.location.href = "/"
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Login failed")
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50 p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="border-b">
+          <CardTitle className="text-center">Cloudflare AI Chatbot</CardTitle>
+          <p className="text-sm text-gray-500 text-center">Sign in to continue</p>
+        </CardHeader>
+        <CardContent className="space-y-4 pt-6">
+          {!session && (
+            <div className="flex justify-center text-gray-400">
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          )}
+
+          {session?.methods.password && (
+            <form onSubmit={handleSubmit} className="space-y-2">
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+                autoFocus
+                disabled={isSubmitting}
+              />
+              <Button type="submit" className="w-full" disabled={!password || isSubmitting}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+                Sign in
+              </Button>
+            </form>
+          )}
+
+          {session?.methods.oidc && (
+            <Button variant="outline" className="w-full" asChild>
+              <a href="/api/auth/oidc/login">
+                <LogIn className="h-4 w-4" />
+                Sign in with single sign-on
+              </a>
+            </Button>
+          )}
+
+          {session && !session.methods.password && !session.methods.oidc && (
+            <p className="text-sm text-gray-500 text-center">
+              This deployment only accepts API keys. Send one as <code>Authorization: Bearer &lt;key&gt;</code>.
+            </p>
+          )}
+
+          {error && <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
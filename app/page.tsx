@@ -1,44 +1,136 @@
 "use client"
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
 import type React from "react"
 
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Loader2, Send, Copy, Check, Settings } from "lucide-react"
-import { MarkdownMessage } from "@/components/markdown-message"
-
-interface Message {
-  id: string
-  role: "user" | "assistant"
-  content: string
-  isStreaming?: boolean
-  model?: string
-}
-
-// Common Cloudflare AI models
-const AVAILABLE_MODELS = [
-  { id: "@cf/meta/llama-3.1-8b-instruct", name: "Llama 3.1 8B (Current)" },
-  { id: "@cf/meta/llama-3.1-70b-instruct", name: "Llama 3.1 70B" },
-  { id: "@cf/meta/llama-3-8b-instruct", name: "Llama 3 8B" },
-  { id: "@cf/mistral/mistral-7b-instruct-v0.1", name: "Mistral 7B" },
-  { id: "@cf/microsoft/phi-2", name: "Microsoft Phi-2" },
-  { id: "@cf/qwen/qwen1.5-14b-chat-awq", name: "Qwen 1.5 14B" },
-  { id: "@cf/google/gemma-7b-it", name: "Google Gemma 7B" },
-]
+import {
+  BarChart3,
+  Columns3,
+  ImageIcon,
+  ImagePlus,
+  Loader2,
+  Library,
+  LogOut,
+  Mic,
+  Paperclip,
+  Send,
+  Settings,
+  Square,
+  Wrench,
+} from "lucide-react"
+import { AttachmentList } from "@/components/attachment-list"
+import { ChatMessage } from "@/components/chat-message"
+import {
+  CompareModelPicker,
+  CompareView,
+  MIN_COMPARE_MODELS,
+  type CompareResult,
+} from "@/components/compare-view"
+import { ContextMeter } from "@/components/context-meter"
+import { ConversationSidebar } from "@/components/conversation-sidebar"
+import { renderConversationHtml } from "@/components/exported-conversation"
+import { GenerationSettings } from "@/components/generation-settings"
+import { ImageThumbnails } from "@/components/image-thumbnails"
+import { ModelSelect } from "@/components/model-select"
+import { useConversations } from "@/hooks/use-conversations"
+import { useModelCatalog } from "@/hooks/use-model-catalog"
+import { useSession } from "@/hooks/use-session"
+import { useVoiceRecorder } from "@/hooks/use-voice-recorder"
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENTS_PER_MESSAGE, withAttachments } from "@/lib/attachments"
+import {
+  buildChatRequest,
+  ChatRequestError,
+  listKnowledgeDocuments,
+  streamChat,
+  uploadAttachment,
+} from "@/lib/chat-client"
+import {
+  downloadFile,
+  EXPORT_FILE_TYPES,
+  exportConversationJson,
+  exportConversationMarkdown,
+  exportFileName,
+  parseConversationExport,
+  type ExportFormat,
+} from "@/lib/conversation-export"
+import { validateGenerationParams, type GenerationParams } from "@/lib/generation"
+import { getRequiredInputs, IMAGE_MIME_TYPES, MAX_IMAGES_PER_MESSAGE, readImageFile } from "@/lib/images"
+import { getDefaultLeaf, getLatestLeaf, getSiblings, getThread, normalizeTree } from "@/lib/message-tree"
+import { canModelHandle, DEFAULT_MODEL_ID, findModel } from "@/lib/models"
+import { createChatRequestSchema, MAX_INPUT_CHARS } from "@/lib/schemas"
+import { countContextTokens, DEFAULT_CONTEXT_WINDOW, IMAGE_TOKEN_ESTIMATE, resolveUsage } from "@/lib/tokens"
+import type { Attachment, Conversation, ImagePart, Message } from "@/lib/types"
 
 export default function ChatPage() {
-  const [messages, setMessages] = useState<Message[]>([])
+  // Every message node of the conversation, and the last message of the branch being shown
+  const [tree, setTree] = useState<Message[]>([])
+  const [leafId, setLeafId] = useState<string | null>(null)
   const [input, setInput] = useState("")
+  // Files attached to the message being written, and how many are still uploading
+  const [attachments, setAttachments] = useState<Attachment[]>([])
+  const [uploadCount, setUploadCount] = useState(0)
+  // Images for the message being written, for vision models
+  const [images, setImages] = useState<ImagePart[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null)
-  const [selectedModel, setSelectedModel] = useState(AVAILABLE_MODELS[0].id)
+  const [selectedModel, setSelectedModel] = useState(DEFAULT_MODEL_ID)
   const [showSettings, setShowSettings] = useState(false)
+  const [params, setParams] = useState<GenerationParams>({})
+  const [compareMode, setCompareMode] = useState(false)
+  // Image generation mode sends prompts to a text-to-image model instead of the chat model
+  const [imageMode, setImageMode] = useState(false)
+  const [imageModel, setImageModel] = useState("")
+  const [imageParams, setImageParams] = useState<GenerationParams>({})
+  // Knowledge mode answers from the server's knowledge base; the count is shown while it is on
+  const [knowledgeMode, setKnowledgeMode] = useState(false)
+  const [knowledgeCount, setKnowledgeCount] = useState<number | null>(null)
+  // Tools mode lets the model call the server's tools, shown as steps above its reply
+  const [toolsMode, setToolsMode] = useState(false)
+  const [compareModels, setCompareModels] = useState<string[]>([])
+  // Prompt currently being answered side by side, with the models answering it
+  // The comparison being shown, with the settings it was started with
+  const [comparison, setComparison] = useState<{
+    history: Message[]
+    models: string[]
+    params: GenerationParams
+  } | null>(null)
+  const [comparisonStopped, setComparisonStopped] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const imageInputRef = useRef<HTMLInputElement>(null)
+  // Last tree and branch read from or written to storage, to avoid redundant saves
+  const persistedRef = useRef<{ tree: Message[]; leafId: string | null }>({ tree, leafId })
+  const { models } = useModelCatalog()
+  const { session, signOut } = useSession()
+  // Dictated prompts are added to whatever has been typed
+  const recorder = useVoiceRecorder({
+    onTranscript: (text) => setInput((prev) => (prev.trim() ? `${prev.trimEnd()} ${text}` : text)),
+    onError: setError,
+  })
+  const {
+    conversations,
+    activeConversation,
+    activeId,
+    setActiveId,
+    createConversation,
+    updateConversation,
+    renameConversation,
+    togglePinned,
+    importConversation,
+    removeConversation,
+  } = useConversations()
+
+  // The messages of the branch being shown, oldest first
+  const messages = useMemo(() => getThread(tree, leafId), [tree, leafId])
+
+  // Send visitors to the login page when the server requires signing in
+  useEffect(() => {
+    if (session?.authRequired && !session.user) window.location.href = "/login"
+  }, [session])
 
   // Scroll to bottom when messages change
   useEffect(() => {
@@ -47,6 +139,19 @@ export default function ChatPage() {
     }
   }, [messages])
 
+  // Save the conversation once a reply has finished or the branch changes
+  useEffect(() => {
+    const persisted = persistedRef.current
+    if (isLoading || tree.length === 0 || (tree === persisted.tree && leafId === persisted.leafId)) return
+    persistedRef.current = { tree, leafId }
+
+    if (activeConversation) {
+      updateConversation(activeConversation.id, { messages: tree, currentLeafId: leafId, model: selectedModel, params })
+    } else {
+      createConversation({ messages: tree, currentLeafId: leafId, model: selectedModel, params })
+    }
+  }, [tree, leafId, isLoading, activeConversation, selectedModel, params, createConversation, updateConversation])
+
   // Clean up abort controller on unmount
   useEffect(() => {
     return () => {
@@ -56,188 +161,583 @@ export default function ChatPage() {
     }
   }, [])
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!input.trim() || isLoading) return
+  const updateMessage = (id: string, changes: Partial<Message>) => {
+    setTree((prev) => prev.map((msg) => (msg.id === id ? { ...msg, ...changes } : msg)))
+  }
 
+  // Stream a new assistant reply to `history` (which ends with the user message it answers)
+  const generateReply = async (history: Message[], model: string) => {
     // Cancel any ongoing request
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
     }
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: "user",
-      content: input.trim(),
-    }
-
-    console.log("=== FRONTEND: Sending message ===")
-    console.log("User message:", userMessage)
-    console.log("Selected model:", selectedModel)
-
-    setMessages((prev) => [...prev, userMessage])
-    setInput("")
-    setIsLoading(true)
-    setError(null)
-
-    // Create an initial empty assistant message for streaming
-    const assistantMessageId = (Date.now() + 1).toString()
+    const parentId = history[history.length - 1].id
+    const assistantMessageId = crypto.randomUUID()
+    const request = buildRequestFor(history, model)
     const initialAssistantMessage: Message = {
       id: assistantMessageId,
+      parentId,
       role: "assistant",
       content: "",
       isStreaming: true,
-      model: selectedModel,
+      model,
+      params: request.params,
+      createdAt: Date.now(),
     }
 
-    setMessages((prev) => [...prev, initialAssistantMessage])
+    setTree((prev) => [...prev, initialAssistantMessage])
+    setLeafId(assistantMessageId)
+    setIsLoading(true)
+    setError(null)
 
     // Create a new abort controller for this request
     abortControllerRef.current = new AbortController()
     const { signal } = abortControllerRef.current
+    // Reply text so far, for estimating usage when the reply is stopped
+    let reply = ""
 
     try {
-      console.log("Making streaming API call...")
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          messages: [...messages, userMessage],
-          model: selectedModel,
-        }),
+      const result = await streamChat({
+        ...request,
         signal,
+        // Show which model is answering when a fallback takes over
+        onModel: (answeredBy) =>
+          updateMessage(assistantMessageId, {
+            model: answeredBy,
+            fallbackFrom: answeredBy !== model ? model : undefined,
+          }),
+        onSources: (sources) => updateMessage(assistantMessageId, { sources }),
+        onToolSteps: (toolSteps) => updateMessage(assistantMessageId, { toolSteps }),
+        onText: (content) => {
+          reply = content
+          updateMessage(assistantMessageId, { content })
+        },
       })
 
-      console.log("API response status:", response.status)
-
-      if (!response.ok) {
-        const errorData = await response.text()
-        console.error("API error response:", errorData)
-        throw new Error(`HTTP ${response.status}: ${errorData}`)
+      // Ensure streaming is marked as complete; image replies have no token counts
+      updateMessage(assistantMessageId, {
+        isStreaming: false,
+        ...(result.image
+          ? { image: result.image }
+          : { usage: resolveUsage(result.usage, history, result.content, params.systemPrompt) }),
+      })
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        // Keep the partial answer and mark it as stopped
+        updateMessage(assistantMessageId, {
+          isStreaming: false,
+          stopped: true,
+          usage: resolveUsage(undefined, history, reply, params.systemPrompt),
+        })
+      } else {
+        console.error("Chat request failed:", error)
+
+        // The session expired; sign in again
+        if (error instanceof ChatRequestError && error.status === 401) window.location.href = "/login"
+
+        // Keep the failed turn so it can be retried
+        updateMessage(assistantMessageId, {
+          isStreaming: false,
+          error: {
+            message: error instanceof Error ? error.message : "An unknown error occurred",
+            category: error instanceof ChatRequestError ? error.category : undefined,
+            requestId: error instanceof ChatRequestError ? error.requestId : undefined,
+          },
+        })
       }
+    } finally {
+      setIsLoading(false)
+      abortControllerRef.current = null
+    }
+  }
 
-      // Handle streaming response
-      const reader = response.body?.getReader()
-      const decoder = new TextDecoder()
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if ((!draft.trim() && images.length === 0) || isLoading || uploadCount > 0) return
 
-      if (!reader) {
-        throw new Error("No response body reader available")
-      }
+    if (Object.keys(paramErrors).length > 0) {
+      setShowSettings(true)
+      return
+    }
+
+    if (compareMode && compareModels.length < MIN_COMPARE_MODELS) {
+      setError(`Select at least ${MIN_COMPARE_MODELS} models to compare`)
+      return
+    }
 
-      console.log("Starting to read stream...")
-      let accumulatedContent = ""
-      let buffer = ""
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      parentId: leafId,
+      role: "user",
+      content: input.trim(),
+      ...(attachments.length > 0 && { attachments }),
+      ...(images.length > 0 && { images }),
+      createdAt: Date.now(),
+    }
 
-      while (true) {
-        const { done, value } = await reader.read()
+    const problem = findRequestProblem([...messages, userMessage], replyingModels)
+    if (problem) {
+      setError(problem)
+      return
+    }
 
-        if (done) {
-          console.log("Stream reading complete")
-          break
-        }
+    setTree((prev) => [...prev, userMessage])
+    setLeafId(userMessage.id)
+    setInput("")
+    setAttachments([])
+    setImages([])
+
+    if (compareMode) {
+      setError(null)
+      setIsLoading(true)
+      setComparison({ history: [...messages, userMessage], models: compareModels, params })
+      setComparisonStopped(false)
+    } else {
+      await generateReply([...messages, userMessage], replyModel)
+    }
+  }
 
-        // Decode the chunk and add it to our buffer
-        buffer += decoder.decode(value, { stream: true })
+  // Keep the chosen comparison answer as the reply in the main thread
+  const promoteComparison = (result: CompareResult) => {
+    if (!comparison) return
 
-        // Process complete SSE messages from the buffer
-        const lines = buffer.split("\n\n")
-        buffer = lines.pop() || "" // Keep the last incomplete chunk in the buffer
+    const assistantMessage: Message = {
+      id: crypto.randomUUID(),
+      parentId: comparison.history[comparison.history.length - 1].id,
+      role: "assistant",
+      content: result.content,
+      model: result.model,
+      params: comparison.params,
+      stopped: result.stopped,
+      usage: resolveUsage(result.usage, comparison.history, result.content, comparison.params.systemPrompt),
+      createdAt: Date.now(),
+    }
 
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            try {
-              const data = JSON.parse(line.slice(6)) // Remove 'data: ' prefix
-              console.log("Parsed chunk data:", data)
+    setTree((prev) => [...prev, assistantMessage])
+    setLeafId(assistantMessage.id)
+    setComparison(null)
+    setIsLoading(false)
+  }
 
-              if (data.type === "text-delta" && data.textDelta) {
-                accumulatedContent += data.textDelta
+  // Stop the reply being generated; the partial answer is kept
+  const stopGeneration = () => {
+    if (comparison) {
+      setComparisonStopped(true)
+    } else {
+      abortControllerRef.current?.abort()
+    }
+  }
 
-                // Update the streaming message with accumulated content
-                setMessages((prev) =>
-                  prev.map((msg) => (msg.id === assistantMessageId ? { ...msg, content: accumulatedContent } : msg)),
-                )
-              } else if (data.type === "finish") {
-                console.log("Stream finished")
-                // Mark streaming as complete
-                setMessages((prev) =>
-                  prev.map((msg) => (msg.id === assistantMessageId ? { ...msg, isStreaming: false } : msg)),
-                )
-              }
-            } catch (parseError) {
-              console.error("Failed to parse chunk:", parseError, "Raw line:", line)
-            }
-          }
+  const dismissComparison = () => {
+    setComparison(null)
+    setIsLoading(false)
+  }
+
+  // Extract the text of picked files on the server; each is attached once its upload succeeds
+  const handleAttach = async (files: File[]) => {
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - attachments.length - uploadCount
+    if (files.length > room) {
+      setError(`A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`)
+    }
+
+    await Promise.all(
+      files.slice(0, Math.max(0, room)).map(async (file) => {
+        setUploadCount((count) => count + 1)
+        try {
+          const attachment = await uploadAttachment(file)
+          setAttachments((prev) => [...prev, attachment])
+        } catch (error) {
+          setError(`Could not attach ${file.name}: ${error instanceof Error ? error.message : "unknown error"}`)
+        } finally {
+          setUploadCount((count) => count - 1)
         }
-      }
+      }),
+    )
+  }
 
-      console.log("Final accumulated content length:", accumulatedContent.length)
+  const removeAttachment = (id: string) => {
+    setAttachments((prev) => prev.filter((attachment) => attachment.id !== id))
+  }
 
-      // Ensure streaming is marked as complete
-      setMessages((prev) => prev.map((msg) => (msg.id === assistantMessageId ? { ...msg, isStreaming: false } : msg)))
-    } catch (error) {
-      if (error.name === "AbortError") {
-        console.log("Request was aborted")
-      } else {
-        console.error("=== FRONTEND ERROR ===")
-        console.error("Error:", error)
-        console.error("=== END FRONTEND ERROR ===")
+  // Add pasted, dropped or picked images to the draft when the model (or every compared model) can read them
+  const handleAddImages = async (files: File[]) => {
+    const blind = replyingModels.find((id) => !findModel(models, id)?.inputs.includes("image"))
+    if (blind) {
+      setError(`${getModelName(blind)} cannot read images; choose a vision model to send them`)
+      return
+    }
 
-        // Remove the streaming message and show error
-        setMessages((prev) => prev.filter((msg) => msg.id !== assistantMessageId))
-        setError(error instanceof Error ? error.message : "An unknown error occurred")
+    const room = MAX_IMAGES_PER_MESSAGE - images.length
+    if (files.length > room) setError(`A message can have at most ${MAX_IMAGES_PER_MESSAGE} images`)
+    for (const file of files.slice(0, Math.max(0, room))) {
+      try {
+        const image = await readImageFile(file)
+        setImages((prev) => [...prev, image])
+      } catch (error) {
+        setError(error instanceof Error ? error.message : `Could not read ${file.name}`)
       }
-    } finally {
-      setIsLoading(false)
-      abortControllerRef.current = null
     }
   }
 
-  const copyToClipboard = async (text: string, messageId: string) => {
+  // Dropped images go to the message's images, other files are attached
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    if (isLoading || imageMode) return
+    const files = Array.from(e.dataTransfer.files)
+    const isImage = (file: File) => file.type.startsWith("image/")
+    if (files.some(isImage)) void handleAddImages(files.filter(isImage))
+    if (files.some((file) => !isImage(file))) void handleAttach(files.filter((file) => !isImage(file)))
+  }
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const pasted = Array.from(e.clipboardData.files).filter((file) => file.type.startsWith("image/"))
+    if (pasted.length === 0) return
+    e.preventDefault()
+    void handleAddImages(pasted)
+  }
+
+  // Editing a prompt adds a sibling user message and answers it on a new branch
+  const handleEdit = async (message: Message, content: string) => {
+    if (isLoading) return
+
+    const editedMessage: Message = {
+      id: crypto.randomUUID(),
+      parentId: message.parentId ?? null,
+      role: "user",
+      content,
+      // An edited prompt keeps the files of the original
+      ...(message.attachments && { attachments: message.attachments }),
+      ...(message.images && { images: message.images }),
+      createdAt: Date.now(),
+    }
+
+    const history = [...getThread(tree, message.parentId ?? null), editedMessage]
+    const problem = findRequestProblem(history, [replyModel])
+    if (problem) {
+      setError(problem)
+      return
+    }
+
+    setTree((prev) => [...prev, editedMessage])
+    setLeafId(editedMessage.id)
+    await generateReply(history, replyModel)
+  }
+
+  // Regenerating adds a sibling reply to the same user message, optionally from another model
+  const handleRegenerate = async (message: Message, modelId?: string) => {
+    if (isLoading || !message.parentId) return
+    await generateReply(getThread(tree, message.parentId), modelId || message.model || selectedModel)
+  }
+
+  // Retrying replaces a failed reply with a new attempt from the model originally asked for
+  const handleRetry = async (message: Message) => {
+    if (isLoading || !message.parentId) return
+    setTree((prev) => prev.filter((msg) => msg.id !== message.id))
+    await generateReply(getThread(tree, message.parentId), message.fallbackFrom || message.model || selectedModel)
+  }
+
+  const selectBranch = (message: Message, direction: -1 | 1) => {
+    const siblings = getSiblings(tree, message)
+    const target = siblings[siblings.findIndex((sibling) => sibling.id === message.id) + direction]
+    if (target) setLeafId(getLatestLeaf(tree, target.id))
+  }
+
+  // Show a conversation's current branch with the model and settings it was last used with
+  const showConversation = (conversation: Conversation) => {
+    const conversationTree = normalizeTree(conversation.messages)
+    const conversationLeafId = conversation.currentLeafId ?? getDefaultLeaf(conversationTree)
+    persistedRef.current = { tree: conversationTree, leafId: conversationLeafId }
+    setActiveId(conversation.id)
+    setTree(conversationTree)
+    setLeafId(conversationLeafId)
+    if (conversation.model) setSelectedModel(conversation.model)
+    setParams(conversation.params || {})
+    setError(null)
+  }
+
+  const openConversation = (id: string) => {
+    const conversation = conversations.find((c) => c.id === id)
+    if (!conversation || isLoading) return
+    showConversation(conversation)
+  }
+
+  const exportConversation = (id: string, format: ExportFormat) => {
+    const conversation = conversations.find((c) => c.id === id)
+    if (!conversation) return
+
+    const content =
+      format === "json"
+        ? exportConversationJson(conversation)
+        : format === "markdown"
+          ? exportConversationMarkdown(conversation, getModelName)
+          : renderConversationHtml(conversation, getModelName)
+    downloadFile(exportFileName(conversation, format), content, EXPORT_FILE_TYPES[format].mimeType)
+  }
+
+  // Imported conversations are added to the history and opened
+  const handleImport = async (file: File) => {
+    if (isLoading) return
     try {
-      await navigator.clipboard.writeText(text)
-      setCopiedMessageId(messageId)
-      setTimeout(() => setCopiedMessageId(null), 2000)
-    } catch (err) {
-      console.error("Failed to copy text: ", err)
+      showConversation(importConversation(parseConversationExport(await file.text())))
+    } catch (error) {
+      setError(`Could not import ${file.name}: ${error instanceof Error ? error.message : "unknown error"}`)
+    }
+  }
+
+  const startNewConversation = () => {
+    if (isLoading) return
+
+    persistedRef.current = { tree: [], leafId: null }
+    setActiveId(null)
+    setTree([])
+    setLeafId(null)
+    setError(null)
+  }
+
+  const deleteConversation = (id: string) => {
+    if (id === activeId) startNewConversation()
+    void removeConversation(id)
+  }
+
+  // Generation settings are saved with the active conversation as they change
+  const handleParamsChange = (next: GenerationParams) => {
+    setParams(next)
+    if (activeConversation) {
+      updateConversation(activeConversation.id, { params: next }, false)
     }
   }
 
+  // Check a request against the same schema the server uses, so invalid input is caught before sending
+  const chatRequestSchema = useMemo(() => createChatRequestSchema(models), [models])
+  const findRequestProblem = (history: Message[], modelIds: string[]): string | null => {
+    for (const model of modelIds) {
+      const result = chatRequestSchema.safeParse(buildChatRequest(buildRequestFor(history, model)))
+      if (!result.success) return result.error.issues[0].message
+    }
+    return null
+  }
+
   const getModelName = (modelId: string) => {
-    return AVAILABLE_MODELS.find((m) => m.id === modelId)?.name || modelId
+    return findModel(models, modelId)?.name || modelId
   }
 
+  const imageModels = models.filter((model) => model.task === "text-to-image")
+  const isImageModel = (modelId: string) => findModel(models, modelId)?.task === "text-to-image"
+
+  // Image models draw the latest prompt alone, with only the image settings and no fallback
+  const buildRequestFor = (history: Message[], model: string) =>
+    isImageModel(model)
+      ? { messages: history.slice(-1), model, params: imageParams, fallback: false }
+      : {
+          messages: history,
+          model,
+          imageInput: findModel(models, model)?.imageInput,
+          params,
+          knowledge: knowledgeMode,
+          tools: toolsMode,
+        }
+
+  // Only offer chat models that can handle what the conversation contains; images need a vision model
+  const requiredInputs = getRequiredInputs([...messages, { role: "user", images }])
+  const usableModels = models.filter((model) => canModelHandle(model, requiredInputs))
+
+  const toggleCompareMode = () => {
+    if (!compareMode && compareModels.length === 0) {
+      setCompareModels(usableModels.slice(0, MIN_COMPARE_MODELS).map((model) => model.id))
+    }
+    setImageMode(false)
+    setToolsMode(false)
+    setCompareMode(!compareMode)
+  }
+
+  const toggleImageMode = () => {
+    if (!imageMode && !imageModel) setImageModel(imageModels[0]?.id || "")
+    setCompareMode(false)
+    setKnowledgeMode(false)
+    setToolsMode(false)
+    setImageMode(!imageMode)
+  }
+
+  const toggleKnowledgeMode = () => {
+    if (!knowledgeMode) {
+      listKnowledgeDocuments()
+        .then((documents) => setKnowledgeCount(documents.length))
+        .catch((error) => console.error("Failed to load knowledge base:", error))
+    }
+    setImageMode(false)
+    setKnowledgeMode(!knowledgeMode)
+  }
+
+  const toggleToolsMode = () => {
+    setImageMode(false)
+    setCompareMode(false)
+    setToolsMode(!toolsMode)
+  }
+  const selectedModelInfo = findModel(models, selectedModel)
+  const imageModelInfo = findModel(models, imageModel)
+  // The model that answers in single-model mode, and the models that will answer the next message
+  const replyModel = imageMode ? imageModel : selectedModel
+  const replyingModels = compareMode ? compareModels : [replyModel]
+  const canSendImages = replyingModels.every((id) => findModel(models, id)?.inputs.includes("image"))
+  const paramErrors = imageMode
+    ? validateGenerationParams(imageParams, imageModelInfo)
+    : validateGenerationParams(params, selectedModelInfo)
+  const draft = withAttachments({ content: input, attachments })
+  const contextTokens =
+    countContextTokens(messages, params.systemPrompt, draft) + images.length * IMAGE_TOKEN_ESTIMATE
+
   return (
-    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 p-4">
-      <Card className="w-full max-w-4xl h-[85vh] flex flex-col">
+    <div className="flex items-center justify-center gap-4 min-h-screen bg-gray-50 p-4">
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={activeId}
+        disabled={isLoading}
+        onSelect={openConversation}
+        onCreate={startNewConversation}
+        onRename={renameConversation}
+        onTogglePin={togglePinned}
+        onDelete={deleteConversation}
+        onExport={exportConversation}
+        onImport={handleImport}
+      />
+      <Card
+        className="w-full max-w-4xl h-[85vh] flex flex-col"
+        onDragOver={(e) => e.dataTransfer.types.includes("Files") && e.preventDefault()}
+        onDrop={handleDrop}
+      >
         <CardHeader className="border-b">
           <div className="flex items-center justify-between">
             <div>
               <CardTitle className="text-center">Cloudflare AI Chatbot</CardTitle>
               <p className="text-sm text-gray-500 text-center">Multi-model streaming responses with Markdown</p>
             </div>
-            <Button variant="ghost" size="sm" onClick={() => setShowSettings(!showSettings)} className="p-2">
-              <Settings className="h-4 w-4" />
-            </Button>
+            <div className="flex items-center gap-1">
+              <Button
+                variant={compareMode ? "secondary" : "ghost"}
+                size="sm"
+                onClick={toggleCompareMode}
+                disabled={isLoading}
+                className="p-2"
+                title="Compare models side by side"
+              >
+                <Columns3 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant={imageMode ? "secondary" : "ghost"}
+                size="sm"
+                onClick={toggleImageMode}
+                disabled={isLoading || imageModels.length === 0}
+                className="p-2"
+                title="Generate images"
+              >
+                <ImageIcon className="h-4 w-4" />
+              </Button>
+              <Button
+                variant={knowledgeMode ? "secondary" : "ghost"}
+                size="sm"
+                onClick={toggleKnowledgeMode}
+                disabled={isLoading}
+                className="p-2"
+                title="Answer from the knowledge base"
+              >
+                <Library className="h-4 w-4" />
+              </Button>
+              <Button
+                variant={toolsMode ? "secondary" : "ghost"}
+                size="sm"
+                onClick={toggleToolsMode}
+                disabled={isLoading}
+                className="p-2"
+                title="Let the model use tools"
+              >
+                <Wrench className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setShowSettings(!showSettings)} className="p-2">
+                <Settings className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" className="p-2" title="Token usage" asChild>
+                <a href="/usage">
+                  <BarChart3 className="h-4 w-4" />
+                </a>
+              </Button>
+              {session?.user && session.user.method !== "anonymous" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={signOut}
+                  className="p-2"
+                  title={`Sign out ${session.user.name}`}
+                >
+                  <LogOut className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
 
-          {showSettings && (
+          {knowledgeMode && (
+            <p className="mt-2 text-center text-xs text-gray-500">
+              {knowledgeCount === 0
+                ? "The knowledge base is empty. "
+                : knowledgeCount === 1
+                  ? "Answering from 1 knowledge base document. "
+                  : `Answering from ${knowledgeCount ?? "the"} knowledge base documents. `}
+              <a href="/knowledge" className="text-blue-600 underline hover:text-blue-800">
+                Manage documents
+              </a>
+            </p>
+          )}
+
+          {toolsMode && (
+            <p className="mt-2 text-center text-xs text-gray-500">
+              {selectedModelInfo?.tools
+                ? "Replies can use a calculator, the date and time, the knowledge base and, where allowed, web pages."
+                : `${getModelName(selectedModel)} cannot call tools. Try ${
+                    models
+                      .filter((model) => model.tools)
+                      .map((model) => model.name)
+                      .join(" or ") || "another model"
+                  }.`}
+            </p>
+          )}
+
+          {compareMode && (
+            <div className="mt-4">
+              <CompareModelPicker models={usableModels} selected={compareModels} onChange={setCompareModels} />
+            </div>
+          )}
+
+          {showSettings && imageMode && (
+            <div className="mt-4 p-4 bg-gray-50 rounded-lg">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Image model:</label>
+                <ModelSelect models={imageModels} value={imageModel} onChange={setImageModel} />
+              </div>
+              <div className="mt-4">
+                <GenerationSettings
+                  model={imageModelInfo}
+                  params={imageParams}
+                  errors={paramErrors}
+                  showSystemPrompt={false}
+                  onChange={setImageParams}
+                />
+              </div>
+            </div>
+          )}
+
+          {showSettings && !imageMode && (
             <div className="mt-4 p-4 bg-gray-50 rounded-lg">
               <div className="space-y-2">
                 <label className="text-sm font-medium">AI Model:</label>
-                <Select value={selectedModel} onValueChange={setSelectedModel}>
-                  <SelectTrigger className="w-full">
-                    <SelectValue placeholder="Select a model" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {AVAILABLE_MODELS.map((model) => (
-                      <SelectItem key={model.id} value={model.id}>
-                        {model.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <ModelSelect models={usableModels} value={selectedModel} onChange={setSelectedModel} />
+              </div>
+              <div className="mt-4">
+                <GenerationSettings
+                  model={selectedModelInfo}
+                  params={params}
+                  errors={paramErrors}
+                  onChange={handleParamsChange}
+                />
               </div>
             </div>
           )}
@@ -248,75 +748,50 @@ export default function ChatPage() {
             <div className="flex items-center justify-center h-full text-gray-400">
               <div className="text-center">
                 <p className="mb-2">Start a conversation by sending a message</p>
-                <p className="text-xs">Current model: {getModelName(selectedModel)}</p>
-                <p className="text-xs mt-1">Try asking: "What is Vercel?" or "Explain React hooks"</p>
+                <p className="text-xs">Current model: {getModelName(replyModel)}</p>
+                <p className="text-xs mt-1">
+                  {imageMode
+                    ? 'Try: "A lighthouse on a cliff at sunset, oil painting"'
+                    : 'Try asking: "What is Vercel?" or "Explain React hooks"'}
+                </p>
               </div>
             </div>
           ) : (
             <div className="space-y-6">
-              {messages.map((message) => (
-                <div key={message.id} className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}>
-                  <div
-                    className={`flex items-start gap-3 max-w-[90%] ${message.role === "user" ? "flex-row-reverse" : ""}`}
-                  >
-                    <Avatar
-                      className={`h-8 w-8 flex-shrink-0 ${message.role === "user" ? "bg-blue-500" : "bg-gray-300"}`}
-                    >
-                      <AvatarFallback className="text-xs">{message.role === "user" ? "U" : "AI"}</AvatarFallback>
-                    </Avatar>
-                    <div
-                      className={`rounded-lg px-4 py-3 relative group ${
-                        message.role === "user" ? "bg-blue-500 text-white" : "bg-white border border-gray-200 shadow-sm"
-                      }`}
-                    >
-                      {message.role === "user" ? (
-                        <div className="whitespace-pre-wrap">{message.content}</div>
-                      ) : (
-                        <div className="relative">
-                          <MarkdownMessage
-                            content={message.content || " "} // Ensure there's always content for the component
-                            className={message.role === "assistant" ? "text-gray-800" : ""}
-                          />
-                          {/* Show streaming indicator */}
-                          {message.isStreaming && (
-                            <div className="flex items-center mt-2 text-gray-400">
-                              <Loader2 className="h-3 w-3 animate-spin mr-1" />
-                              <span className="text-xs">
-                                Streaming from {getModelName(message.model || selectedModel)}...
-                              </span>
-                            </div>
-                          )}
-                          {/* Show model info for completed messages */}
-                          {!message.isStreaming && message.model && (
-                            <div className="text-xs text-gray-400 mt-2">Generated by {getModelName(message.model)}</div>
-                          )}
-                        </div>
-                      )}
-
-                      {/* Copy button for AI messages */}
-                      {message.role === "assistant" && !message.isStreaming && message.content && (
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity h-6 w-6 p-0"
-                          onClick={() => copyToClipboard(message.content, message.id)}
-                        >
-                          {copiedMessageId === message.id ? (
-                            <Check className="h-3 w-3 text-green-600" />
-                          ) : (
-                            <Copy className="h-3 w-3" />
-                          )}
-                        </Button>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              ))}
+              {messages.map((message) => {
+                const siblings = getSiblings(tree, message)
+                return (
+                  <ChatMessage
+                    key={message.id}
+                    message={message}
+                    branch={{ index: siblings.findIndex((s) => s.id === message.id), count: siblings.length }}
+                    isBusy={isLoading}
+                    models={isImageModel(message.model || "") ? imageModels : usableModels}
+                    getModelName={getModelName}
+                    onSelectBranch={(direction) => selectBranch(message, direction)}
+                    onEdit={(content) => handleEdit(message, content)}
+                    onRegenerate={(modelId) => handleRegenerate(message, modelId)}
+                    onRetry={() => handleRetry(message)}
+                  />
+                )
+              })}
+              {comparison && (
+                <CompareView
+                  history={comparison.history}
+                  models={comparison.models}
+                  params={comparison.params}
+                  stopped={comparisonStopped}
+                  getModelName={getModelName}
+                  getImageInput={(modelId) => findModel(models, modelId)?.imageInput}
+                  onPromote={promoteComparison}
+                  onDismiss={dismissComparison}
+                />
+              )}
               <div ref={messagesEndRef} />
             </div>
           )}
 
-          {isLoading && messages.filter((m) => m.isStreaming).length === 0 && (
+          {isLoading && !comparison && messages.filter((m) => m.isStreaming).length === 0 && (
             <div className="flex justify-start">
               <div className="flex items-start gap-3 max-w-[90%]">
                 <Avatar className="h-8 w-8 bg-gray-300">
@@ -324,7 +799,7 @@ export default function ChatPage() {
                 </Avatar>
                 <div className="rounded-lg px-4 py-3 bg-white border border-gray-200 shadow-sm flex items-center">
                   <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                  <span className="text-sm text-gray-600">Connecting to {getModelName(selectedModel)}...</span>
+                  <span className="text-sm text-gray-600">Connecting to {getModelName(replyModel)}...</span>
                 </div>
               </div>
             </div>
@@ -337,19 +812,122 @@ export default function ChatPage() {
           )}
         </CardContent>
 
-        <CardFooter className="border-t p-4">
+        <CardFooter className="border-t p-4 flex-col gap-2">
+          {images.length > 0 && (
+            <div className="w-full">
+              <ImageThumbnails
+                images={images}
+                size="sm"
+                onRemove={(id) => setImages((prev) => prev.filter((image) => image.id !== id))}
+              />
+            </div>
+          )}
+          {(attachments.length > 0 || uploadCount > 0) && (
+            <div className="flex w-full items-center gap-2">
+              <AttachmentList attachments={attachments} onRemove={removeAttachment} />
+              {uploadCount > 0 && (
+                <span className="flex items-center text-xs text-gray-500">
+                  <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                  Reading {uploadCount === 1 ? "file" : `${uploadCount} files`}...
+                </span>
+              )}
+            </div>
+          )}
           <form onSubmit={handleSubmit} className="flex w-full gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                void handleAttach(Array.from(e.target.files || []))
+                e.target.value = ""
+              }}
+            />
+            {!imageMode && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isLoading || attachments.length + uploadCount >= MAX_ATTACHMENTS_PER_MESSAGE}
+                title="Attach files"
+              >
+                <Paperclip className="h-4 w-4" />
+              </Button>
+            )}
+            <input
+              ref={imageInputRef}
+              type="file"
+              multiple
+              accept={IMAGE_MIME_TYPES.join(",")}
+              className="hidden"
+              onChange={(e) => {
+                void handleAddImages(Array.from(e.target.files || []))
+                e.target.value = ""
+              }}
+            />
+            {canSendImages && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => imageInputRef.current?.click()}
+                disabled={isLoading || images.length >= MAX_IMAGES_PER_MESSAGE}
+                title="Add images (or paste or drop them)"
+              >
+                <ImagePlus className="h-4 w-4" />
+              </Button>
+            )}
+            {recorder.supported && (
+              <Button
+                type="button"
+                variant={recorder.state === "recording" ? "destructive" : "ghost"}
+                onClick={recorder.state === "recording" ? recorder.stop : recorder.start}
+                disabled={isLoading || recorder.state === "transcribing"}
+                title={recorder.state === "recording" ? "Stop recording and transcribe" : "Dictate a message"}
+              >
+                {recorder.state === "transcribing" ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Mic className={`h-4 w-4 ${recorder.state === "recording" ? "animate-pulse" : ""}`} />
+                )}
+              </Button>
+            )}
             <Input
               value={input}
               onChange={(e) => setInput(e.target.value)}
-              placeholder={`Ask ${getModelName(selectedModel)} anything...`}
+              onPaste={handlePaste}
+              placeholder={
+                compareMode
+                  ? `Ask ${compareModels.length} models the same question...`
+                  : imageMode
+                    ? `Describe an image for ${getModelName(imageModel)}...`
+                    : `Ask ${getModelName(selectedModel)} anything...`
+              }
               className="flex-1"
               disabled={isLoading}
             />
-            <Button type="submit" disabled={isLoading || !input.trim()}>
-              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
-            </Button>
+            {input.length > MAX_INPUT_CHARS * 0.9 && (
+              <span
+                className={`self-center text-xs ${input.length > MAX_INPUT_CHARS ? "text-red-600" : "text-gray-500"}`}
+              >
+                {input.length}/{MAX_INPUT_CHARS}
+              </span>
+            )}
+            {isLoading && !comparisonStopped ? (
+              <Button type="button" variant="outline" onClick={stopGeneration} title="Stop generating">
+                <Square className="h-4 w-4 fill-current" />
+                Stop
+              </Button>
+            ) : (
+              <Button type="submit" disabled={isLoading || uploadCount > 0 || (!draft.trim() && images.length === 0)}>
+                <Send className="h-4 w-4" />
+              </Button>
+            )}
           </form>
+          {!compareMode && !imageMode && (
+            <ContextMeter used={contextTokens} limit={selectedModelInfo?.contextLength || DEFAULT_CONTEXT_WINDOW} />
+          )}
         </CardFooter>
       </Card>
     </div>
@@ -0,0 +1,188 @@
+"use client"
+import { useMemo, useState } from "react"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft } from "lucide-react"
+import { useConversations } from "@/hooks/use-conversations"
+import { useModelCatalog } from "@/hooks/use-model-catalog"
+import { findModel } from "@/lib/models"
+import { formatTokens } from "@/lib/tokens"
+import { summarizeUsage, type UsageRow } from "@/lib/usage"
+
+const PERIODS = [7, 30, 90]
+// Conversations listed in the breakdown table
+const TOP_CONVERSATIONS = 10
+
+const PROMPT_COLOR = "#3b82f6"
+const COMPLETION_COLOR = "#10b981"
+const REQUESTS_COLOR = "#f59e0b"
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-lg border bg-white p-4">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-2xl font-semibold tabular-nums">{value}</div>
+      {hint && <div className="text-xs text-gray-400">{hint}</div>}
+    </div>
+  )
+}
+
+function UsageTable({ rows, label }: { rows: UsageRow[]; label: string }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500">
+          <th className="py-2 font-medium">{label}</th>
+          <th className="py-2 font-medium text-right">Requests</th>
+          <th className="py-2 font-medium text-right">Prompt</th>
+          <th className="py-2 font-medium text-right">Reply</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key} className="border-t">
+            <td className="py-2 pr-2 max-w-[16rem] truncate" title={row.label}>
+              {row.label}
+            </td>
+            <td className="py-2 text-right tabular-nums">{row.requests}</td>
+            <td className="py-2 text-right tabular-nums">{formatTokens(row.promptTokens)}</td>
+            <td className="py-2 text-right tabular-nums">{formatTokens(row.completionTokens)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default function UsagePage() {
+  const [days, setDays] = useState(30)
+  const { conversations } = useConversations()
+  const { models } = useModelCatalog()
+
+  const usage = useMemo(() => summarizeUsage(conversations, days), [conversations, days])
+  const byModel = usage.byModel.map((row) => ({ ...row, label: findModel(models, row.key)?.name || row.key }))
+  const { totals } = usage
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <Card className="mx-auto w-full max-w-5xl">
+        <CardHeader className="border-b">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" className="p-2" title="Back to chat" asChild>
+                <a href="/">
+                  <ArrowLeft className="h-4 w-4" />
+                </a>
+              </Button>
+              <div>
+                <CardTitle>Token Usage</CardTitle>
+                <p className="text-sm text-gray-500">From the conversations stored in this browser</p>
+              </div>
+            </div>
+            <div className="flex gap-1">
+              {PERIODS.map((period) => (
+                <Button
+                  key={period}
+                  variant={period === days ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setDays(period)}
+                >
+                  {period} days
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-8 pt-6">
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            <StatCard label="Requests" value={String(totals.requests)} />
+            <StatCard label="Prompt tokens" value={formatTokens(totals.promptTokens)} />
+            <StatCard label="Reply tokens" value={formatTokens(totals.completionTokens)} />
+            <StatCard
+              label="Estimated"
+              value={totals.requests > 0 ? `${Math.round((totals.estimatedRequests / totals.requests) * 100)}%` : "–"}
+              hint="of requests without backend counts"
+            />
+          </div>
+
+          <section className="space-y-2">
+            <h2 className="text-sm font-medium">By day</h2>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={usage.byDay}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} tickFormatter={(day: string) => day.slice(5)} />
+                  <YAxis yAxisId="tokens" tick={{ fontSize: 11 }} tickFormatter={formatTokens} />
+                  <YAxis yAxisId="requests" orientation="right" allowDecimals={false} tick={{ fontSize: 11 }} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar
+                    yAxisId="tokens"
+                    dataKey="promptTokens"
+                    name="Prompt tokens"
+                    stackId="tokens"
+                    fill={PROMPT_COLOR}
+                  />
+                  <Bar
+                    yAxisId="tokens"
+                    dataKey="completionTokens"
+                    name="Reply tokens"
+                    stackId="tokens"
+                    fill={COMPLETION_COLOR}
+                  />
+                  <Line yAxisId="requests" dataKey="requests" name="Requests" stroke={REQUESTS_COLOR} dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h2 className="text-sm font-medium">By model</h2>
+            {byModel.length === 0 ? (
+              <p className="text-sm text-gray-500">No requests in this period.</p>
+            ) : (
+              <>
+                <div style={{ height: Math.max(120, byModel.length * 40) }}>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={byModel} layout="vertical" margin={{ left: 24 }}>
+                      <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                      <XAxis type="number" tick={{ fontSize: 11 }} tickFormatter={formatTokens} />
+                      <YAxis type="category" dataKey="label" width={160} tick={{ fontSize: 11 }} />
+                      <Tooltip />
+                      <Bar dataKey="promptTokens" name="Prompt tokens" stackId="tokens" fill={PROMPT_COLOR} />
+                      <Bar dataKey="completionTokens" name="Reply tokens" stackId="tokens" fill={COMPLETION_COLOR} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <UsageTable rows={byModel} label="Model" />
+              </>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h2 className="text-sm font-medium">By conversation</h2>
+            {usage.byConversation.length === 0 ? (
+              <p className="text-sm text-gray-500">No requests in this period.</p>
+            ) : (
+              <UsageTable rows={usage.byConversation.slice(0, TOP_CONVERSATIONS)} label="Conversation" />
+            )}
+          </section>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+import { FileText, X } from "lucide-react"
+
+import { formatFileSize } from "@/lib/attachments"
+import type { Attachment } from "@/lib/types"
+
+interface AttachmentListProps {
+  attachments: Attachment[]
+  // Shows a remove button on each chip
+  onRemove?: (id: string) => void
+  // Chips on a user bubble are drawn light-on-blue
+  inverted?: boolean
+}
+
+// Chips naming attached files, with their size and whether their text was cut off
+export function AttachmentList({ attachments, onRemove, inverted = false }: AttachmentListProps) {
+  if (attachments.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {attachments.map((attachment) => (
+        <span
+          key={attachment.id}
+          className={`inline-flex max-w-[16rem] items-center gap-1 rounded-md border px-2 py-1 text-xs ${
+            inverted ? "border-white/30 bg-white/15 text-white" : "border-gray-200 bg-gray-50 text-gray-700"
+          }`}
+          title={attachment.truncated ? `${attachment.name} (text cut off to fit)` : attachment.name}
+        >
+          <FileText className="h-3 w-3 flex-shrink-0" />
+          <span className="truncate">{attachment.name}</span>
+          <span className={`flex-shrink-0 ${inverted ? "text-white/70" : "text-gray-400"}`}>
+            {formatFileSize(attachment.size)}
+            {attachment.truncated && " · cut off"}
+          </span>
+          {onRemove && (
+            <button
+              type="button"
+              className="flex-shrink-0 rounded hover:bg-gray-200"
+              onClick={() => onRemove(attachment.id)}
+              title={`Remove ${attachment.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,300 @@
+"use client"
+import { useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  AlertCircle,
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  Loader2,
+  Pencil,
+  RefreshCw,
+  RotateCcw,
+} from "lucide-react"
+import { AttachmentList } from "@/components/attachment-list"
+import { GeneratedImageView } from "@/components/generated-image"
+import { ImageThumbnails } from "@/components/image-thumbnails"
+import { MarkdownMessage } from "@/components/markdown-message"
+import { ReadAloudButton } from "@/components/read-aloud-button"
+import { ToolSteps } from "@/components/tool-steps"
+import { ERROR_CATEGORY_LABELS } from "@/lib/errors"
+import { describeGenerationParams } from "@/lib/generation"
+import type { ModelInfo } from "@/lib/models"
+import { formatTokens, getMessageTokens } from "@/lib/tokens"
+import type { Message } from "@/lib/types"
+
+interface ChatMessageProps {
+  message: Message
+  // Position among sibling versions (edits or regenerations) of this message
+  branch: { index: number; count: number }
+  // Disables editing and regenerating while a reply is streaming
+  isBusy: boolean
+  models: ModelInfo[]
+  getModelName: (modelId: string) => string
+  onSelectBranch: (direction: -1 | 1) => void
+  onEdit: (content: string) => void
+  onRegenerate: (modelId?: string) => void
+  // Try a failed reply again
+  onRetry: () => void
+}
+
+export function ChatMessage({
+  message,
+  branch,
+  isBusy,
+  models,
+  getModelName,
+  onSelectBranch,
+  onEdit,
+  onRegenerate,
+  onRetry,
+}: ChatMessageProps) {
+  const [copied, setCopied] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(message.content)
+  const isUser = message.role === "user"
+  const isImageReply =
+    !!message.image || models.some((model) => model.id === message.model && model.task === "text-to-image")
+  const tokens = getMessageTokens(message)
+  const tokenLabel = `${tokens.estimated ? "~" : ""}${formatTokens(tokens.tokens)} tokens`
+
+  const copyToClipboard = async () => {
+    try {
+      await navigator.clipboard.writeText(message.content)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      console.error("Failed to copy text: ", err)
+    }
+  }
+
+  const startEditing = () => {
+    setDraft(message.content)
+    setIsEditing(true)
+  }
+
+  const submitEdit = () => {
+    const content = draft.trim()
+    setIsEditing(false)
+    const hasFiles = !!message.attachments?.length || !!message.images?.length
+    if ((content || hasFiles) && content !== message.content) onEdit(content)
+  }
+
+  return (
+    <div className={`flex ${isUser ? "justify-end" : "justify-start"}`}>
+      <div className={`flex items-start gap-3 max-w-[90%] ${isUser ? "flex-row-reverse" : ""}`}>
+        <Avatar className={`h-8 w-8 flex-shrink-0 ${isUser ? "bg-blue-500" : "bg-gray-300"}`}>
+          <AvatarFallback className="text-xs">{isUser ? "U" : "AI"}</AvatarFallback>
+        </Avatar>
+        <div className="flex flex-col gap-1 min-w-0">
+          <div
+            className={`rounded-lg px-4 py-3 relative group ${
+              isUser ? "bg-blue-500 text-white" : "bg-white border border-gray-200 shadow-sm"
+            }`}
+          >
+            {isUser ? (
+              isEditing ? (
+                <div className="space-y-2">
+                  <textarea
+                    autoFocus
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) submitEdit()
+                      if (e.key === "Escape") setIsEditing(false)
+                    }}
+                    rows={Math.min(10, Math.max(2, draft.split("\n").length))}
+                    className="w-full min-w-[16rem] rounded-md bg-white/95 p-2 text-sm text-gray-900 outline-none"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="secondary" className="h-7" onClick={() => setIsEditing(false)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      className="h-7"
+                      onClick={submitEdit}
+                      disabled={!draft.trim() && !message.attachments?.length && !message.images?.length}
+                    >
+                      Send
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {message.images && <ImageThumbnails images={message.images} />}
+                  {message.content && <div className="whitespace-pre-wrap">{message.content}</div>}
+                  {message.attachments && <AttachmentList attachments={message.attachments} inverted />}
+                </div>
+              )
+            ) : message.error ? (
+              <div className="flex items-start gap-2 text-red-700">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <div className="space-y-2 min-w-0">
+                  <p className="text-sm font-medium">
+                    {message.error.category ? ERROR_CATEGORY_LABELS[message.error.category] : "Error"}
+                    {message.model && (
+                      <span className="font-normal text-red-600"> · {getModelName(message.model)}</span>
+                    )}
+                  </p>
+                  <p className="text-sm break-words">{message.error.message}</p>
+                  {message.error.requestId && (
+                    <p className="text-xs text-red-500 font-mono">Request ID: {message.error.requestId}</p>
+                  )}
+                  <Button variant="outline" size="sm" className="h-7" onClick={onRetry} disabled={isBusy}>
+                    <RotateCcw className="h-3 w-3" />
+                    Retry
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="relative">
+                {message.toolSteps && <ToolSteps steps={message.toolSteps} />}
+                {message.image ? (
+                  <GeneratedImageView image={message.image} />
+                ) : (
+                  <MarkdownMessage
+                    content={message.content || " "} // Ensure there's always content for the component
+                    className="text-gray-800"
+                    sources={message.sources}
+                  />
+                )}
+                {/* Show streaming indicator */}
+                {message.isStreaming && (
+                  <div className="flex items-center mt-2 text-gray-400">
+                    <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                    <span className="text-xs">
+                      {isImageReply ? "Generating image with" : "Streaming from"} {getModelName(message.model || "")}...
+                    </span>
+                  </div>
+                )}
+                {/* Show model info for completed messages */}
+                {!message.isStreaming && message.model && (
+                  <div className="text-xs text-gray-400 mt-2" title={message.params?.systemPrompt}>
+                    Generated by {getModelName(message.model)}
+                    {message.fallbackFrom && <> (fallback for {getModelName(message.fallbackFrom)})</>}
+                    {message.params && describeGenerationParams(message.params) && (
+                      <> · {describeGenerationParams(message.params)}</>
+                    )}
+                    {message.params?.systemPrompt && <> · custom system prompt</>}
+                    {message.stopped && <span className="text-amber-600"> · stopped</span>}
+                    {message.usage && (
+                      <span
+                        title={`Prompt ${message.usage.promptTokens} + reply ${message.usage.completionTokens} tokens${
+                          message.usage.estimated ? " (estimated)" : ""
+                        }`}
+                      >
+                        {" "}
+                        · {tokenLabel}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Copy button for AI messages */}
+            {!isUser && !message.isStreaming && message.content && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity h-6 w-6 p-0"
+                onClick={copyToClipboard}
+              >
+                {copied ? <Check className="h-3 w-3 text-green-600" /> : <Copy className="h-3 w-3" />}
+              </Button>
+            )}
+          </div>
+
+          {!isEditing && !message.isStreaming && (
+            <div className={`flex items-center gap-1 text-xs text-gray-500 ${isUser ? "justify-end" : ""}`}>
+              {branch.count > 1 && (
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => onSelectBranch(-1)}
+                    disabled={isBusy || branch.index === 0}
+                    title="Previous version"
+                  >
+                    <ChevronLeft className="h-3 w-3" />
+                  </Button>
+                  <span className="tabular-nums">
+                    {branch.index + 1}/{branch.count}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => onSelectBranch(1)}
+                    disabled={isBusy || branch.index === branch.count - 1}
+                    title="Next version"
+                  >
+                    <ChevronRight className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+
+              {isUser && (
+                <span className="tabular-nums text-gray-400" title="Estimated tokens">
+                  {tokenLabel}
+                </span>
+              )}
+
+              {isUser ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={startEditing}
+                  disabled={isBusy}
+                  title="Edit"
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+              ) : (
+                <>
+                  {message.content && !message.error && <ReadAloudButton text={message.content} />}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={isBusy} title="Regenerate">
+                        <RefreshCw className="h-3 w-3" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                      <DropdownMenuItem onSelect={() => onRegenerate()}>
+                        Regenerate with {getModelName(message.model || "")}
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel className="text-xs text-gray-500">Try another model</DropdownMenuLabel>
+                      {models
+                        .filter((model) => model.id !== message.model)
+                        .map((model) => (
+                          <DropdownMenuItem key={model.id} onSelect={() => onRegenerate(model.id)}>
+                            {model.name}
+                          </DropdownMenuItem>
+                        ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
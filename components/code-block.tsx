@@ -0,0 +1,118 @@
+"use client"
+import { useState } from "react"
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter"
+import { tomorrow } from "react-syntax-highlighter/dist/esm/styles/prism"
+
+import { Check, Copy, Download, ListOrdered, WrapText } from "lucide-react"
+import { downloadFile } from "@/lib/conversation-export"
+
+// File extensions for downloaded code, by language; other languages are saved under their own name
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  bash: "sh",
+  shell: "sh",
+  sh: "sh",
+  zsh: "sh",
+  powershell: "ps1",
+  python: "py",
+  javascript: "js",
+  typescript: "ts",
+  ruby: "rb",
+  rust: "rs",
+  csharp: "cs",
+  "c++": "cpp",
+  kotlin: "kt",
+  markdown: "md",
+  yaml: "yml",
+  text: "txt",
+  plaintext: "txt",
+}
+
+// Helper function to name a downloaded code block after its language, e.g. "snippet.py"
+function codeFileName(language: string): string {
+  const extension = LANGUAGE_EXTENSIONS[language] || (/^[a-z0-9]{1,10}$/.test(language) ? language : "txt")
+  return `snippet.${extension}`
+}
+
+interface CodeBlockProps {
+  code: string
+  // Language from the fence, e.g. "python"; plain text when absent
+  language?: string
+}
+
+// Helper component for a toolbar button; toggles show whether they are on
+function ToolbarButton({
+  title,
+  pressed,
+  onClick,
+  children,
+}: {
+  title: string
+  pressed?: boolean
+  onClick: () => void
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      type="button"
+      title={title}
+      aria-pressed={pressed}
+      onClick={onClick}
+      className={`rounded p-1 hover:bg-gray-700 hover:text-white ${pressed ? "bg-gray-700 text-white" : ""}`}
+    >
+      {children}
+    </button>
+  )
+}
+
+/**
+ * A fenced code block, highlighted, with a toolbar naming its language and
+ * buttons to copy it, download it as a file, number its lines and wrap long
+ * lines.
+ */
+export function CodeBlock({ code, language = "text" }: CodeBlockProps) {
+  const [copied, setCopied] = useState(false)
+  const [lineNumbers, setLineNumbers] = useState(false)
+  const [wrap, setWrap] = useState(false)
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      console.error("Failed to copy code: ", err)
+    }
+  }
+
+  return (
+    <div className="not-prose my-3 overflow-hidden rounded-md bg-[#2d2d2d]">
+      <div className="flex items-center justify-between bg-gray-800 px-3 py-1 text-xs text-gray-400">
+        <span className="font-mono">{language}</span>
+        <div className="flex items-center gap-0.5">
+          <ToolbarButton title="Line numbers" pressed={lineNumbers} onClick={() => setLineNumbers(!lineNumbers)}>
+            <ListOrdered className="h-3.5 w-3.5" />
+          </ToolbarButton>
+          <ToolbarButton title="Wrap long lines" pressed={wrap} onClick={() => setWrap(!wrap)}>
+            <WrapText className="h-3.5 w-3.5" />
+          </ToolbarButton>
+          <ToolbarButton title="Download" onClick={() => downloadFile(codeFileName(language), code, "text/plain")}>
+            <Download className="h-3.5 w-3.5" />
+          </ToolbarButton>
+          <ToolbarButton title={copied ? "Copied" : "Copy code"} onClick={copyCode}>
+            {copied ? <Check className="h-3.5 w-3.5 text-green-400" /> : <Copy className="h-3.5 w-3.5" />}
+          </ToolbarButton>
+        </div>
+      </div>
+      <SyntaxHighlighter
+        style={tomorrow}
+        language={language}
+        PreTag="div"
+        showLineNumbers={lineNumbers}
+        wrapLongLines={wrap}
+        customStyle={{ margin: 0, borderRadius: 0, fontSize: "0.8125rem" }}
+      >
+        {code}
+      </SyntaxHighlighter>
+    </div>
+  )
+}
@@ -0,0 +1,264 @@
+"use client"
+import { useEffect, useRef, useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { ArrowUpToLine, Loader2, X } from "lucide-react"
+import { MarkdownMessage } from "@/components/markdown-message"
+import type { Usage } from "@/lib/adapters"
+import { streamChat } from "@/lib/chat-client"
+import type { GenerationParams } from "@/lib/generation"
+import type { ImageInputFormat, ModelInfo } from "@/lib/models"
+import type { Message } from "@/lib/types"
+
+export const MIN_COMPARE_MODELS = 2
+export const MAX_COMPARE_MODELS = 4
+
+interface CompareModelPickerProps {
+  models: ModelInfo[]
+  selected: string[]
+  onChange: (selected: string[]) => void
+}
+
+// Toggle chips for choosing the models to compare
+export function CompareModelPicker({ models, selected, onChange }: CompareModelPickerProps) {
+  const toggle = (modelId: string) => {
+    if (selected.includes(modelId)) {
+      onChange(selected.filter((id) => id !== modelId))
+    } else if (selected.length < MAX_COMPARE_MODELS) {
+      onChange([...selected, modelId])
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">
+        Compare models ({selected.length}/{MAX_COMPARE_MODELS}):
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {models.map((model) => {
+          const isSelected = selected.includes(model.id)
+          return (
+            <button
+              key={model.id}
+              type="button"
+              onClick={() => toggle(model.id)}
+              disabled={!isSelected && selected.length >= MAX_COMPARE_MODELS}
+              className={`rounded-full border px-3 py-1 text-xs transition-colors disabled:opacity-40 ${
+                isSelected ? "border-blue-500 bg-blue-500 text-white" : "border-gray-300 bg-white hover:bg-gray-50"
+              }`}
+            >
+              {model.name}
+            </button>
+          )
+        })}
+      </div>
+      {selected.length < MIN_COMPARE_MODELS && (
+        <p className="text-xs text-gray-500">Select at least {MIN_COMPARE_MODELS} models.</p>
+      )}
+    </div>
+  )
+}
+
+export interface CompareResult {
+  model: string
+  content: string
+  usage?: Usage
+  stopped?: boolean
+}
+
+interface ColumnState {
+  content: string
+  status: "streaming" | "done" | "stopped" | "error"
+  error?: string
+  usage?: Usage
+  // Milliseconds from request start
+  timeToFirstToken?: number
+  totalLatency?: number
+}
+
+// Helper function to format a latency for display
+function formatMs(ms?: number): string {
+  if (ms === undefined) return "—"
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`
+}
+
+interface CompareColumnProps {
+  history: Message[]
+  model: string
+  imageInput?: ImageInputFormat
+  params: GenerationParams
+  stopped: boolean
+  modelName: string
+  onPromote: (result: CompareResult) => void
+}
+
+function CompareColumn({ history, model, imageInput, params, stopped, modelName, onPromote }: CompareColumnProps) {
+  const [state, setState] = useState<ColumnState>({ content: "", status: "streaming" })
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Stopping keeps whatever each column has produced so far
+  useEffect(() => {
+    if (stopped) controllerRef.current?.abort()
+  }, [stopped])
+
+  // The comparison request runs once per prompt and model; the page keeps `history` and `params` fixed while a
+  // comparison is shown. A run cancelled by cleanup (a new run, unmounting, or StrictMode running the effect
+  // twice) no longer updates the column; only a user's stop marks it stopped.
+  useEffect(() => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+    const startedAt = performance.now()
+    let timeToFirstToken: number | undefined
+    let active = true
+    setState({ content: "", status: "streaming" })
+
+    streamChat({
+      messages: history,
+      model,
+      imageInput,
+      params,
+      // Each column answers with exactly the model being compared
+      fallback: false,
+      signal: controller.signal,
+      onText: (content) => {
+        if (!active) return
+        timeToFirstToken ??= performance.now() - startedAt
+        setState((prev) => ({ ...prev, content, timeToFirstToken }))
+      },
+    })
+      .then((result) => {
+        if (!active) return
+        setState({
+          content: result.content,
+          status: "done",
+          usage: result.usage,
+          timeToFirstToken,
+          totalLatency: performance.now() - startedAt,
+        })
+      })
+      .catch((error) => {
+        if (!active) return
+        if (error instanceof Error && error.name === "AbortError") {
+          setState((prev) =>
+            prev.status === "streaming"
+              ? { ...prev, status: "stopped", totalLatency: performance.now() - startedAt }
+              : prev,
+          )
+          return
+        }
+        setState((prev) => ({
+          ...prev,
+          status: "error",
+          error: error instanceof Error ? error.message : "An unknown error occurred",
+          totalLatency: performance.now() - startedAt,
+        }))
+      })
+
+    return () => {
+      active = false
+      controller.abort()
+    }
+  }, [history, model, imageInput, params])
+
+  return (
+    <div className="flex min-w-0 flex-1 flex-col rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="flex items-center justify-between border-b px-3 py-2">
+        <span className="truncate text-sm font-medium" title={model}>
+          {modelName}
+        </span>
+        {state.status === "streaming" && <Loader2 className="h-3 w-3 animate-spin text-gray-400" />}
+        {state.status === "stopped" && <span className="text-xs text-amber-600">Stopped</span>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 py-2">
+        {state.status === "error" ? (
+          <p className="text-sm text-red-700">{state.error}</p>
+        ) : (
+          <MarkdownMessage content={state.content || " "} className="text-gray-800" />
+        )}
+      </div>
+
+      <div className="border-t px-3 py-2 text-xs text-gray-500 space-y-1">
+        <div className="flex justify-between">
+          <span>First token</span>
+          <span className="tabular-nums">{formatMs(state.timeToFirstToken)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Total</span>
+          <span className="tabular-nums">{formatMs(state.totalLatency)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Output</span>
+          <span className="tabular-nums">
+            {state.content.length} chars
+            {state.usage?.completionTokens !== undefined && ` · ${state.usage.completionTokens} tokens`}
+          </span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-1 h-7 w-full"
+          disabled={(state.status !== "done" && state.status !== "stopped") || !state.content}
+          onClick={() =>
+            onPromote({ model, content: state.content, usage: state.usage, stopped: state.status === "stopped" })
+          }
+        >
+          <ArrowUpToLine className="h-3 w-3" />
+          Use this answer
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface CompareViewProps {
+  // Conversation so far, ending with the prompt being compared
+  history: Message[]
+  models: string[]
+  params: GenerationParams
+  // Abort every column that is still streaming
+  stopped: boolean
+  getModelName: (modelId: string) => string
+  // How each model takes images, so it is only sent the images it uses
+  getImageInput: (modelId: string) => ImageInputFormat | undefined
+  onPromote: (result: CompareResult) => void
+  onDismiss: () => void
+}
+
+// Side-by-side streaming of one prompt to several models
+export function CompareView({
+  history,
+  models,
+  params,
+  stopped,
+  getModelName,
+  getImageInput,
+  onPromote,
+  onDismiss,
+}: CompareViewProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">Comparing {models.length} models — pick the answer to keep</p>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onDismiss}>
+          <X className="h-3 w-3" />
+          Dismiss
+        </Button>
+      </div>
+      <div className="flex h-[50vh] gap-3 overflow-x-auto">
+        {models.map((model) => (
+          <CompareColumn
+            key={model}
+            history={history}
+            model={model}
+            imageInput={getImageInput(model)}
+            params={params}
+            stopped={stopped}
+            modelName={getModelName(model)}
+            onPromote={onPromote}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
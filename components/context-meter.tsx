@@ -0,0 +1,34 @@
+"use client"
+
+import { formatTokens } from "@/lib/tokens"
+
+interface ContextMeterProps {
+  // Estimated tokens of the conversation, system prompt and draft
+  used: number
+  // The model's context window
+  limit: number
+}
+
+// How full the model's context window is; past the limit the oldest turns are summarized
+export function ContextMeter({ used, limit }: ContextMeterProps) {
+  const ratio = limit > 0 ? used / limit : 0
+  const color = ratio >= 0.9 ? "bg-red-500" : ratio >= 0.7 ? "bg-amber-500" : "bg-green-500"
+
+  return (
+    <div
+      className="flex w-full items-center gap-2 text-xs text-gray-500"
+      title={
+        ratio > 1
+          ? "The conversation no longer fits; the oldest messages will be summarized"
+          : "Estimated tokens in the model's context window"
+      }
+    >
+      <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-gray-200">
+        <div className={`h-full ${color} transition-all`} style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+      </div>
+      <span className={`tabular-nums ${ratio > 1 ? "text-red-600" : ""}`}>
+        {formatTokens(used)} / {formatTokens(limit)} tokens
+      </span>
+    </div>
+  )
+}
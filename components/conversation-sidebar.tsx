@@ -0,0 +1,189 @@
+"use client"
+import { useRef, useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Download, MessageSquare, Pencil, Pin, PinOff, Plus, Trash2, Upload } from "lucide-react"
+import type { ExportFormat } from "@/lib/conversation-export"
+import type { Conversation } from "@/lib/types"
+
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: "Markdown",
+  json: "JSON (can be imported)",
+  html: "HTML page",
+}
+
+interface ConversationSidebarProps {
+  conversations: Conversation[]
+  activeId: string | null
+  disabled?: boolean
+  onSelect: (id: string) => void
+  onCreate: () => void
+  onRename: (id: string, title: string) => void
+  onTogglePin: (id: string) => void
+  onDelete: (id: string) => void
+  onExport: (id: string, format: ExportFormat) => void
+  // Import a conversation exported as JSON
+  onImport: (file: File) => void
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  disabled = false,
+  onSelect,
+  onCreate,
+  onRename,
+  onTogglePin,
+  onDelete,
+  onExport,
+  onImport,
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [draftTitle, setDraftTitle] = useState("")
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id)
+    setDraftTitle(conversation.title)
+  }
+
+  const commitEditing = () => {
+    if (editingId) onRename(editingId, draftTitle)
+    setEditingId(null)
+  }
+
+  const confirmDelete = (conversation: Conversation) => {
+    if (window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+      onDelete(conversation.id)
+    }
+  }
+
+  return (
+    <aside className="hidden md:flex w-64 h-[85vh] flex-col rounded-lg border bg-white shadow-sm">
+      <div className="p-3 border-b flex gap-2">
+        <Button variant="outline" className="flex-1 justify-start" onClick={onCreate} disabled={disabled}>
+          <Plus className="h-4 w-4" />
+          New conversation
+        </Button>
+        <Button
+          variant="outline"
+          className="px-3"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          title="Import a conversation (JSON)"
+        >
+          <Upload className="h-4 w-4" />
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) onImport(file)
+            e.target.value = ""
+          }}
+        />
+      </div>
+
+      <nav className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 && (
+          <p className="px-2 py-4 text-xs text-gray-400 text-center">Saved conversations will appear here</p>
+        )}
+
+        {conversations.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={`group flex items-center gap-2 rounded-md px-2 py-2 text-sm ${
+              conversation.id === activeId ? "bg-gray-100 text-gray-900" : "text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {editingId === conversation.id ? (
+              <Input
+                autoFocus
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={commitEditing}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitEditing()
+                  if (e.key === "Escape") setEditingId(null)
+                }}
+                className="h-7 text-sm"
+              />
+            ) : (
+              <>
+                <button
+                  type="button"
+                  className="flex flex-1 items-center gap-2 min-w-0 text-left disabled:cursor-not-allowed"
+                  onClick={() => onSelect(conversation.id)}
+                  disabled={disabled}
+                  title={conversation.title}
+                >
+                  {conversation.pinned ? (
+                    <Pin className="h-3 w-3 flex-shrink-0 text-blue-500" />
+                  ) : (
+                    <MessageSquare className="h-3 w-3 flex-shrink-0 text-gray-400" />
+                  )}
+                  <span className="truncate">{conversation.title}</span>
+                </button>
+
+                <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => onTogglePin(conversation.id)}
+                    title={conversation.pinned ? "Unpin" : "Pin"}
+                  >
+                    {conversation.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => startEditing(conversation)}
+                    title="Rename"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Export">
+                        <Download className="h-3 w-3" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+                        <DropdownMenuItem key={format} onSelect={() => onExport(conversation.id, format)}>
+                          {EXPORT_FORMAT_LABELS[format]}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 hover:text-red-600"
+                    onClick={() => confirmDelete(conversation)}
+                    disabled={disabled && conversation.id === activeId}
+                    title="Delete"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </nav>
+    </aside>
+  )
+}
@@ -0,0 +1,115 @@
+import { renderToStaticMarkup } from "react-dom/server"
+
+import { ImageThumbnails } from "@/components/image-thumbnails"
+import { MarkdownMessage } from "@/components/markdown-message"
+import { ToolSteps } from "@/components/tool-steps"
+import {
+  describeAttachments,
+  describeGeneratedImage,
+  describeReply,
+  formatExportDate,
+  getExportedThread,
+} from "@/lib/conversation-export"
+import type { Conversation } from "@/lib/types"
+
+interface ExportedConversationProps {
+  conversation: Conversation
+  getModelName: (modelId: string) => string
+}
+
+// The branch being shown, laid out like the chat with replies rendered by MarkdownMessage
+export function ExportedConversation({ conversation, getModelName }: ExportedConversationProps) {
+  return (
+    <main className="mx-auto max-w-3xl space-y-4 p-6">
+      <header className="border-b pb-4">
+        <h1 className="text-2xl font-bold text-gray-900">{conversation.title}</h1>
+        <p className="text-sm text-gray-500">Exported {formatExportDate(Date.now())}</p>
+        {conversation.params?.systemPrompt && (
+          <p className="mt-2 whitespace-pre-wrap text-sm text-gray-600">
+            <strong>System prompt:</strong> {conversation.params.systemPrompt}
+          </p>
+        )}
+      </header>
+
+      {getExportedThread(conversation).map((message) =>
+        message.role === "user" ? (
+          <div key={message.id} className="flex justify-end">
+            <div className="max-w-[90%] whitespace-pre-wrap rounded-lg bg-blue-500 px-4 py-3 text-white">
+              {message.images && (
+                <div className="mb-2">
+                  <ImageThumbnails images={message.images} />
+                </div>
+              )}
+              {message.content}
+              {message.attachments?.length ? (
+                <div className="mt-2 text-xs text-blue-100">Attached: {describeAttachments(message)}</div>
+              ) : null}
+            </div>
+          </div>
+        ) : (
+          <div key={message.id} className="flex justify-start">
+            <div className="max-w-[90%] rounded-lg border border-gray-200 bg-white px-4 py-3 shadow-sm">
+              {message.error ? (
+                <p className="text-sm text-red-700">
+                  <strong>Error:</strong> {message.error.message}
+                </p>
+              ) : message.image ? (
+                <figure className="space-y-1">
+                  <img src={message.image.dataUrl} alt={message.image.prompt} className="max-w-full rounded-md" />
+                  <figcaption className="text-xs text-gray-500">
+                    <p className="text-gray-700">{message.image.prompt}</p>
+                    <p>{describeGeneratedImage(message.image)}</p>
+                  </figcaption>
+                </figure>
+              ) : (
+                <>
+                  {message.toolSteps && <ToolSteps steps={message.toolSteps} />}
+                  <MarkdownMessage
+                    content={message.content || " "}
+                    className="text-gray-800"
+                    sources={message.sources}
+                  />
+                </>
+              )}
+              <div className="mt-2 text-xs text-gray-400">{describeReply(message, getModelName)}</div>
+            </div>
+          </div>
+        ),
+      )}
+    </main>
+  )
+}
+
+// Helper function to copy the app's stylesheets, so the export looks the same without the app
+function collectPageStyles(): string {
+  return Array.from(document.styleSheets)
+    .map((sheet) => {
+      try {
+        return Array.from(sheet.cssRules)
+          .map((rule) => rule.cssText)
+          .join("\n")
+      } catch {
+        // Cross-origin stylesheets cannot be read
+        return ""
+      }
+    })
+    .join("\n")
+}
+
+// A standalone HTML file of the conversation, with the page's styles inlined
+export function renderConversationHtml(conversation: Conversation, getModelName: (modelId: string) => string) {
+  const markup = renderToStaticMarkup(
+    <html lang="en">
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>{conversation.title}</title>
+        <style dangerouslySetInnerHTML={{ __html: collectPageStyles() }} />
+      </head>
+      <body className="bg-gray-50 font-sans antialiased">
+        <ExportedConversation conversation={conversation} getModelName={getModelName} />
+      </body>
+    </html>,
+  )
+  return `<!DOCTYPE html>\n${markup}`
+}
@@ -0,0 +1,45 @@
+import { Download } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { describeGeneratedImage } from "@/lib/conversation-export"
+import type { GeneratedImage } from "@/lib/types"
+
+// Helper function to name a downloaded image after the start of its prompt
+function imageFileName(image: GeneratedImage): string {
+  const base = image.prompt
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40)
+  const seed = image.seed !== undefined ? `-${image.seed}` : ""
+  return `${base || "image"}${seed}.${image.mimeType.split("/")[1] || "png"}`
+}
+
+// Helper function to save a generated image through the browser's download prompt
+function downloadImage(image: GeneratedImage) {
+  const link = document.createElement("a")
+  link.href = image.dataUrl
+  link.download = imageFileName(image)
+  link.click()
+}
+
+// An image reply with its prompt, seed and size, and a download button
+export function GeneratedImageView({ image }: { image: GeneratedImage }) {
+  const details = describeGeneratedImage(image)
+
+  return (
+    <figure className="space-y-2">
+      <img src={image.dataUrl} alt={image.prompt} className="max-h-[28rem] w-auto rounded-md border border-gray-200" />
+      <figcaption className="flex items-start justify-between gap-2 text-xs text-gray-500">
+        <div className="min-w-0">
+          <p className="break-words text-gray-700">{image.prompt}</p>
+          {details && <p className="tabular-nums">{details}</p>}
+        </div>
+        <Button variant="outline" size="sm" className="h-7 flex-shrink-0" onClick={() => downloadImage(image)}>
+          <Download className="h-3 w-3" />
+          Download
+        </Button>
+      </figcaption>
+    </figure>
+  )
+}
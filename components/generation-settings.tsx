@@ -0,0 +1,94 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import {
+  getParamRanges,
+  PARAM_LABELS,
+  SYSTEM_PROMPT_MAX_CHARS,
+  type GenerationParams,
+  type NumericParam,
+} from "@/lib/generation"
+import type { ModelInfo } from "@/lib/models"
+
+interface GenerationSettingsProps {
+  model?: ModelInfo
+  params: GenerationParams
+  errors?: Record<string, string>
+  // Image models take no system prompt
+  showSystemPrompt?: boolean
+  onChange: (params: GenerationParams) => void
+}
+
+export function GenerationSettings({
+  model,
+  params,
+  errors = {},
+  showSystemPrompt = true,
+  onChange,
+}: GenerationSettingsProps) {
+  const ranges = getParamRanges(model)
+
+  // Empty inputs clear the parameter so the model default applies
+  const setNumber = (name: NumericParam, raw: string) => {
+    const next = { ...params }
+    if (raw.trim() === "") {
+      delete next[name]
+    } else {
+      next[name] = Number(raw)
+    }
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-4">
+      {showSystemPrompt && (
+        <div className="space-y-2">
+          <label htmlFor="system-prompt" className="text-sm font-medium">
+            System prompt:
+          </label>
+          <textarea
+            id="system-prompt"
+            value={params.systemPrompt || ""}
+            onChange={(e) => onChange({ ...params, systemPrompt: e.target.value || undefined })}
+            placeholder="You are a helpful assistant..."
+            maxLength={SYSTEM_PROMPT_MAX_CHARS}
+            rows={3}
+            className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          />
+          {errors.systemPrompt && <p className="text-xs text-red-600">{errors.systemPrompt}</p>}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {(Object.keys(ranges) as NumericParam[]).map((name) => {
+          const range = ranges[name]!
+          return (
+            <div key={name} className="space-y-1">
+              <label htmlFor={`param-${name}`} className="text-xs font-medium text-gray-700">
+                {PARAM_LABELS[name]}
+              </label>
+              <Input
+                id={`param-${name}`}
+                type="number"
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                value={params[name] ?? ""}
+                onChange={(e) => setNumber(name, e.target.value)}
+                placeholder="Default"
+                className="h-8"
+              />
+              {errors[name] ? (
+                <p className="text-xs text-red-600">{errors[name]}</p>
+              ) : (
+                <p className="text-xs text-gray-400">
+                  {range.min}–{range.max}
+                </p>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
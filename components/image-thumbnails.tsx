@@ -0,0 +1,42 @@
+import { X } from "lucide-react"
+
+import type { ImagePart } from "@/lib/types"
+
+interface ImageThumbnailsProps {
+  images: ImagePart[]
+  // Shows a remove button on each thumbnail
+  onRemove?: (id: string) => void
+  // Thumbnails in the composer are smaller than in a sent message
+  size?: "sm" | "md"
+}
+
+// Thumbnails of a message's images
+export function ImageThumbnails({ images, onRemove, size = "md" }: ImageThumbnailsProps) {
+  if (images.length === 0) return null
+  const dimensions = size === "sm" ? "h-14 w-14" : "h-32 max-w-[12rem]"
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {images.map((image) => (
+        <div key={image.id} className="relative">
+          <img
+            src={image.dataUrl}
+            alt={image.name || "Attached image"}
+            title={image.name}
+            className={`${dimensions} rounded-md border border-white/30 object-cover`}
+          />
+          {onRemove && (
+            <button
+              type="button"
+              className="absolute -right-1.5 -top-1.5 rounded-full bg-gray-700 p-0.5 text-white hover:bg-gray-900"
+              onClick={() => onRemove(image.id)}
+              title="Remove image"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
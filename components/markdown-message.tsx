@@ -1,41 +1,128 @@
+import { isValidElement, useId, type ReactNode } from "react"
 import ReactMarkdown from "react-markdown"
 import remarkGfm from "remark-gfm"
-import { Prism as SyntaxHighlighter } from "react-syntax-highlighter"
-import { tomorrow } from "react-syntax-highlighter/dist/esm/styles/prism"
+import remarkMath from "remark-math"
+import rehypeKatex from "rehype-katex"
+import "katex/dist/katex.min.css"
+
+import { CodeBlock } from "@/components/code-block"
+import { MermaidDiagram } from "@/components/mermaid-diagram"
+import type { KnowledgeSource } from "@/lib/types"
 
 interface MarkdownMessageProps {
   content: string
   className?: string
+  // Knowledge base passages the reply cites as [1], [2]...; shown under it with links from each citation
+  sources?: KnowledgeSource[]
+}
+
+// The parts of a Markdown syntax tree the citation plugin touches
+interface MarkdownNode {
+  type: string
+  value?: string
+  url?: string
+  children?: MarkdownNode[]
+}
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g
+
+// Helper function to build a remark plugin that turns [1] and [1, 2] in text into links to the cited sources
+function remarkCitations(sourceCount: number, anchorPrefix: string) {
+  const link = (index: number): MarkdownNode => ({
+    type: "link",
+    url: `#${anchorPrefix}${index}`,
+    children: [{ type: "text", value: `[${index}]` }],
+  })
+
+  // Helper function to split one text node around its citations; code is left alone
+  const splitText = (node: MarkdownNode): MarkdownNode[] => {
+    const value = node.value || ""
+    const parts: MarkdownNode[] = []
+    let last = 0
+    for (const match of value.matchAll(CITATION_PATTERN)) {
+      const indexes = match[1].split(",").map((index) => Number(index.trim()))
+      if (!indexes.every((index) => index >= 1 && index <= sourceCount)) continue
+      if (match.index > last) parts.push({ type: "text", value: value.slice(last, match.index) })
+      parts.push(...indexes.map(link))
+      last = match.index + match[0].length
+    }
+    if (last === 0) return [node]
+    if (last < value.length) parts.push({ type: "text", value: value.slice(last) })
+    return parts
+  }
+
+  const visit = (node: MarkdownNode) => {
+    if (!node.children || node.type === "link") return
+    node.children = node.children.flatMap((child) => (child.type === "text" ? splitText(child) : [child]))
+    node.children.forEach(visit)
+  }
+
+  return () => (tree: MarkdownNode) => visit(tree)
+}
+
+// Fenced code blocks, including one still open while a reply streams, and inline code spans
+const CODE_PATTERN = /^ *(```|~~~)[\s\S]*?(?:^ *\1|(?![\s\S]))|`[^`\n]+`/gm
+
+// Helper function to rewrite the Markdown outside code, leaving code exactly as written
+function transformOutsideCode(content: string, transform: (text: string) => string): string {
+  let result = ""
+  let last = 0
+  for (const match of content.matchAll(CODE_PATTERN)) {
+    result += transform(content.slice(last, match.index)) + match[0]
+    last = match.index + match[0].length
+  }
+  return result + transform(content.slice(last))
 }
 
-export function MarkdownMessage({ content, className = "" }: MarkdownMessageProps) {
+// Helper function to turn LaTeX's \[...\] and \(...\) delimiters, which many models write, into remark-math's $$
+// on its own lines for display math and inline $$ for inline math
+function normalizeMathDelimiters(text: string): string {
+  return text
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, math: string) => `\n$$\n${math.trim()}\n$$\n`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math: string) => `$$${math.trim()}$$`)
+}
+
+// Helper function to read a fenced block's language and text from the <code> element inside its <pre>
+function readCodeBlock(children: ReactNode): { language?: string; code: string } {
+  if (!isValidElement<{ className?: string; children?: ReactNode }>(children)) return { code: "" }
+  const language = /language-([\w+#-]+)/.exec(children.props.className || "")?.[1]
+  return { language, code: String(children.props.children ?? "").replace(/\n$/, "") }
+}
+
+export function MarkdownMessage({ content, className = "", sources = [] }: MarkdownMessageProps) {
+  // Anchors of this message's sources, unique on a page with many messages
+  const anchorPrefix = `source-${useId().replace(/\W/g, "")}-`
+
   // Pre-process content to convert hyphen lists to asterisk lists for better Markdown compatibility
-  const processedContent = content
-    // Convert hyphen bullet points to asterisk bullet points for better Markdown compatibility
-    .replace(/^- /gm, "* ")
-    .replace(/\n- /g, "\n* ")
-    // Ensure proper spacing for lists
-    .replace(/\n\*\s/g, "\n\n* ")
-    // Ensure proper spacing for numbered lists
-    .replace(/\n(\d+\.\s)/g, "\n\n$1")
+  const processedContent = transformOutsideCode(content, (text) =>
+    normalizeMathDelimiters(text)
+      // Convert hyphen bullet points to asterisk bullet points for better Markdown compatibility
+      .replace(/^- /gm, "* ")
+      .replace(/\n- /g, "\n* ")
+      // Ensure proper spacing for lists
+      .replace(/\n\*\s/g, "\n\n* ")
+      // Ensure proper spacing for numbered lists
+      .replace(/\n(\d+\.\s)/g, "\n\n$1"),
+  )
 
   return (
     <div className={`prose prose-sm max-w-none ${className}`}>
       <ReactMarkdown
-        remarkPlugins={[remarkGfm]}
+        // Single dollars stay text, so prices like "$5 and $10" are not typeset as math
+        remarkPlugins={[
+          remarkGfm,
+          [remarkMath, { singleDollarTextMath: false }],
+          remarkCitations(sources.length, anchorPrefix),
+        ]}
+        rehypePlugins={[rehypeKatex]}
         components={{
-          code({ node, inline, className, children, ...props }) {
-            const match = /language-(\w+)/.exec(className || "")
-            return !inline && match ? (
-              <SyntaxHighlighter style={tomorrow} language={match[1]} PreTag="div" className="rounded-md" {...props}>
-                {String(children).replace(/\n$/, "")}
-              </SyntaxHighlighter>
-            ) : (
-              <code className="bg-gray-100 px-1 py-0.5 rounded text-sm font-mono" {...props}>
-                {children}
-              </code>
-            )
+          // Fenced code is the only code wrapped in <pre>, with or without a language; any other <code> is inline
+          pre({ children }) {
+            const { language, code } = readCodeBlock(children)
+            if (language === "mermaid") return <MermaidDiagram code={code} />
+            return <CodeBlock code={code} language={language} />
           },
+          code: ({ children }) => <code className="bg-gray-100 px-1 py-0.5 rounded text-sm font-mono">{children}</code>,
           h1: ({ children }) => <h1 className="text-xl font-bold mb-3 mt-4 text-gray-900">{children}</h1>,
           h2: ({ children }) => <h2 className="text-lg font-semibold mb-2 mt-3 text-gray-900">{children}</h2>,
           h3: ({ children }) => <h3 className="text-md font-semibold mb-2 mt-3 text-gray-800">{children}</h3>,
@@ -50,16 +137,23 @@ export function MarkdownMessage({ content, className = "" }: MarkdownMessageProp
           ),
           strong: ({ children }) => <strong className="font-semibold text-gray-900">{children}</strong>,
           em: ({ children }) => <em className="italic text-gray-700">{children}</em>,
-          a: ({ href, children }) => (
-            <a
-              href={href}
-              className="text-blue-600 hover:text-blue-800 underline"
-              target="_blank"
-              rel="noopener noreferrer"
-            >
-              {children}
-            </a>
-          ),
+          a: ({ href, children }) =>
+            href?.startsWith(`#${anchorPrefix}`) ? (
+              <sup>
+                <a href={href} className="text-blue-600 no-underline hover:underline" title="Go to source">
+                  {children}
+                </a>
+              </sup>
+            ) : (
+              <a
+                href={href}
+                className="text-blue-600 hover:text-blue-800 underline"
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                {children}
+              </a>
+            ),
           table: ({ children }) => (
             <div className="overflow-x-auto my-3">
               <table className="min-w-full border-collapse border border-gray-300">{children}</table>
@@ -76,6 +170,27 @@ export function MarkdownMessage({ content, className = "" }: MarkdownMessageProp
       >
         {processedContent}
       </ReactMarkdown>
+      {sources.length > 0 && (
+        <div className="not-prose mt-3 border-t border-gray-200 pt-2">
+          <p className="mb-1 text-xs font-medium text-gray-500">Sources</p>
+          <ol className="space-y-1">
+            {sources.map((source) => (
+              <li
+                key={source.index}
+                id={`${anchorPrefix}${source.index}`}
+                className="scroll-mt-4 rounded text-xs target:bg-yellow-50"
+              >
+                <span className="font-medium text-gray-700">
+                  [{source.index}] {source.documentName}
+                </span>
+                <blockquote className="max-h-24 overflow-y-auto whitespace-pre-wrap border-l-2 pl-2 text-gray-600">
+                  {source.text}
+                </blockquote>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
     </div>
   )
 }
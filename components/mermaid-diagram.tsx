@@ -0,0 +1,95 @@
+"use client"
+import { useEffect, useId, useState } from "react"
+
+import { Code, Download, Image as ImageIcon } from "lucide-react"
+import { CodeBlock } from "@/components/code-block"
+import { downloadFile } from "@/lib/conversation-export"
+
+// How long the diagram source must stay unchanged before it is drawn, so a streaming reply is not redrawn per token
+const RENDER_DELAY_MS = 300
+
+let mermaidLoader: Promise<typeof import("mermaid").default> | null = null
+
+// Helper function to load Mermaid on first use; it is large and only needed by replies with diagrams
+function loadMermaid() {
+  mermaidLoader ??= import("mermaid").then(({ default: mermaid }) => {
+    mermaid.initialize({ startOnLoad: false, securityLevel: "strict", theme: "neutral" })
+    return mermaid
+  })
+  return mermaidLoader
+}
+
+/**
+ * A Mermaid diagram drawn from a ```mermaid block. Until it is drawn, when the
+ * source is invalid, and in static exports, the source is shown as a code
+ * block instead.
+ */
+export function MermaidDiagram({ code }: { code: string }) {
+  const id = `mermaid-${useId().replace(/\W/g, "")}`
+  const [svg, setSvg] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [showSource, setShowSource] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const mermaid = await loadMermaid()
+        // Parsing first keeps Mermaid from adding its error graphic to the page for invalid source
+        await mermaid.parse(code)
+        const { svg } = await mermaid.render(id, code)
+        if (cancelled) return
+        setSvg(svg)
+        setError(null)
+      } catch (err) {
+        if (cancelled) return
+        setSvg(null)
+        setError(err instanceof Error ? err.message : "Invalid diagram")
+      }
+    }, RENDER_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [code, id])
+
+  if (!svg) {
+    return (
+      <div>
+        <CodeBlock code={code} language="mermaid" />
+        {error && <p className="-mt-2 mb-3 text-xs text-red-600">Could not draw the diagram: {error}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="not-prose my-3 overflow-hidden rounded-md border border-gray-200">
+      <div className="flex items-center justify-between border-b bg-gray-50 px-3 py-1 text-xs text-gray-500">
+        <span className="font-mono">mermaid</span>
+        <div className="flex items-center gap-0.5">
+          <button
+            type="button"
+            title={showSource ? "Show diagram" : "Show source"}
+            onClick={() => setShowSource(!showSource)}
+            className="rounded p-1 hover:bg-gray-200 hover:text-gray-900"
+          >
+            {showSource ? <ImageIcon className="h-3.5 w-3.5" /> : <Code className="h-3.5 w-3.5" />}
+          </button>
+          <button
+            type="button"
+            title="Download SVG"
+            onClick={() => downloadFile("diagram.svg", svg, "image/svg+xml")}
+            className="rounded p-1 hover:bg-gray-200 hover:text-gray-900"
+          >
+            <Download className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+      {showSource ? (
+        <pre className="overflow-x-auto bg-white p-3 font-mono text-xs text-gray-700">{code}</pre>
+      ) : (
+        <div className="flex justify-center overflow-x-auto bg-white p-3" dangerouslySetInnerHTML={{ __html: svg }} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { groupModelsByProvider, type ModelInfo } from "@/lib/models"
+
+interface ModelSelectProps {
+  models: ModelInfo[]
+  value: string
+  onChange: (modelId: string) => void
+  disabled?: boolean
+}
+
+// Model picker grouped by provider
+export function ModelSelect({ models, value, onChange, disabled }: ModelSelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder="Select a model" />
+      </SelectTrigger>
+      <SelectContent>
+        {groupModelsByProvider(models).map(([provider, providerModels]) => (
+          <SelectGroup key={provider}>
+            <SelectLabel>{provider}</SelectLabel>
+            {providerModels.map((model) => (
+              <SelectItem key={model.id} value={model.id}>
+                {model.name}
+                <span className="ml-2 text-xs text-gray-400">
+                  {Math.round(model.contextLength / 1000)}K ctx
+                  {model.inputs.includes("image") && " · vision"}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
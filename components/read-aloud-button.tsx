@@ -0,0 +1,167 @@
+"use client"
+import { useEffect, useRef, useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Loader2, Pause, Play, Square, Volume2 } from "lucide-react"
+import { synthesizeSpeech } from "@/lib/chat-client"
+import { MAX_SPEECH_CHARS, toSpeechText } from "@/lib/speech"
+
+type PlaybackState = "idle" | "loading" | "playing" | "paused"
+
+interface Playback {
+  pause: () => void
+  resume: () => void
+  stop: () => void
+}
+
+// The button whose reply is being read; starting another one stops it, so only one reply is read at a time
+let activeReader: { stop: () => void } | null = null
+
+// Helper function to read text with the browser's speech synthesis
+function speakInBrowser(text: string, onEnd: () => void): Playback {
+  const utterance = new SpeechSynthesisUtterance(text)
+  utterance.onend = onEnd
+  utterance.onerror = onEnd
+  speechSynthesis.cancel()
+  speechSynthesis.speak(utterance)
+  return {
+    pause: () => speechSynthesis.pause(),
+    resume: () => speechSynthesis.resume(),
+    stop: () => speechSynthesis.cancel(),
+  }
+}
+
+// Helper function to play audio from the server's text-to-speech model
+async function playAudio(audio: Blob, onEnd: () => void): Promise<Playback> {
+  const url = URL.createObjectURL(audio)
+  const element = new Audio(url)
+  const finish = () => {
+    URL.revokeObjectURL(url)
+    onEnd()
+  }
+  element.onended = finish
+  element.onerror = finish
+  await element.play()
+  return {
+    pause: () => element.pause(),
+    resume: () => void element.play(),
+    stop: () => {
+      element.pause()
+      finish()
+    },
+  }
+}
+
+/**
+ * Read a reply aloud with the server's text-to-speech model, falling back to
+ * the browser's speech synthesis when the server cannot, with pause, resume
+ * and stop controls while it plays.
+ */
+export function ReadAloudButton({ text }: { text: string }) {
+  const [state, setState] = useState<PlaybackState>("idle")
+  const playbackRef = useRef<Playback | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const readerRef = useRef({ stop: () => {} })
+
+  const stop = () => {
+    abortRef.current?.abort()
+    playbackRef.current?.stop()
+    playbackRef.current = null
+    if (activeReader === readerRef.current) activeReader = null
+    setState("idle")
+  }
+  readerRef.current.stop = stop
+
+  // Stop reading when the message goes away
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort()
+      playbackRef.current?.stop()
+    }
+  }, [])
+
+  const start = async () => {
+    const speech = toSpeechText(text)
+    if (!speech) return
+    activeReader?.stop()
+    activeReader = readerRef.current
+    setState("loading")
+
+    const onEnd = () => {
+      playbackRef.current = null
+      if (activeReader === readerRef.current) activeReader = null
+      setState("idle")
+    }
+    const canSpeakInBrowser = typeof speechSynthesis !== "undefined"
+
+    let playback: Playback | null = null
+    // Replies too long for the text-to-speech model go straight to the browser
+    if (speech.length <= MAX_SPEECH_CHARS || !canSpeakInBrowser) {
+      abortRef.current = new AbortController()
+      try {
+        const audio = await synthesizeSpeech(speech.slice(0, MAX_SPEECH_CHARS), abortRef.current.signal)
+        playback = await playAudio(audio, onEnd)
+      } catch (error) {
+        if (error instanceof Error && error.name === "AbortError") return
+        console.warn("Server speech failed, using the browser's speech synthesis:", error)
+      } finally {
+        abortRef.current = null
+      }
+    }
+    if (!playback && canSpeakInBrowser) playback = speakInBrowser(speech, onEnd)
+
+    if (!playback) {
+      onEnd()
+      return
+    }
+    playbackRef.current = playback
+    setState("playing")
+  }
+
+  if (state === "idle") {
+    return (
+      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={start} title="Read aloud">
+        <Volume2 className="h-3 w-3" />
+      </Button>
+    )
+  }
+
+  return (
+    <div className="flex items-center">
+      {state === "loading" ? (
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled title="Preparing audio">
+          <Loader2 className="h-3 w-3 animate-spin" />
+        </Button>
+      ) : state === "playing" ? (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={() => {
+            playbackRef.current?.pause()
+            setState("paused")
+          }}
+          title="Pause"
+        >
+          <Pause className="h-3 w-3" />
+        </Button>
+      ) : (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={() => {
+            playbackRef.current?.resume()
+            setState("playing")
+          }}
+          title="Resume"
+        >
+          <Play className="h-3 w-3" />
+        </Button>
+      )}
+      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={stop} title="Stop reading">
+        <Square className="h-3 w-3 fill-current" />
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import { AlertCircle, ChevronRight, Loader2, Wrench } from "lucide-react"
+
+import { describeToolArguments, getToolLabel } from "@/lib/tools/labels"
+import type { ToolStep } from "@/lib/types"
+
+// The tool calls made for a reply, each collapsed to one line that opens to show its arguments and result
+export function ToolSteps({ steps }: { steps: ToolStep[] }) {
+  if (steps.length === 0) return null
+
+  return (
+    <div className="mb-3 space-y-1">
+      {steps.map((step) => {
+        const pending = step.result === undefined && step.error === undefined
+        return (
+          <details key={step.id} className="group/step rounded-md border border-gray-200 bg-gray-50 text-xs">
+            <summary className="flex cursor-pointer list-none items-center gap-1.5 px-2 py-1.5 text-gray-600">
+              <ChevronRight className="h-3 w-3 flex-shrink-0 transition-transform group-open/step:rotate-90" />
+              {pending ? (
+                <Loader2 className="h-3 w-3 flex-shrink-0 animate-spin" />
+              ) : step.error !== undefined ? (
+                <AlertCircle className="h-3 w-3 flex-shrink-0 text-red-600" />
+              ) : (
+                <Wrench className="h-3 w-3 flex-shrink-0" />
+              )}
+              <span className="font-medium text-gray-700">{getToolLabel(step.name)}</span>
+              <span className="truncate font-mono text-gray-500">{describeToolArguments(step.arguments)}</span>
+            </summary>
+            <div className="space-y-2 border-t border-gray-200 px-2 py-2">
+              <div>
+                <p className="mb-0.5 font-medium text-gray-500">Arguments</p>
+                <pre className="overflow-x-auto whitespace-pre-wrap break-words font-mono text-gray-700">
+                  {JSON.stringify(step.arguments ?? {}, null, 2)}
+                </pre>
+              </div>
+              <div>
+                <p className="mb-0.5 font-medium text-gray-500">{step.error !== undefined ? "Error" : "Result"}</p>
+                {pending ? (
+                  <p className="text-gray-400">Running...</p>
+                ) : (
+                  <pre
+                    className={`max-h-48 overflow-y-auto whitespace-pre-wrap break-words font-mono ${
+                      step.error !== undefined ? "text-red-700" : "text-gray-700"
+                    }`}
+                  >
+                    {step.error ?? step.result}
+                  </pre>
+                )}
+              </div>
+            </div>
+          </details>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+"use client"
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import {
+  deleteServerConversation,
+  getServerConversation,
+  listServerConversations,
+  saveServerConversation,
+} from "@/lib/chat-client"
+import * as db from "@/lib/conversation-db"
+import type { ConversationExport } from "@/lib/schemas"
+import type { Conversation, Message } from "@/lib/types"
+
+const TITLE_MAX_CHARS = 48
+// How long a conversation has to stay unchanged before it is saved to the server, so settings changes are batched
+const SERVER_SAVE_DELAY_MS = 1000
+
+// Derive a conversation title from its first user message
+export function titleFromMessages(messages: Message[]): string {
+  const firstPrompt = messages.find((message) => message.role === "user")?.content.replace(/\s+/g, " ").trim()
+  if (!firstPrompt) return "New conversation"
+  return firstPrompt.length > TITLE_MAX_CHARS ? firstPrompt.slice(0, TITLE_MAX_CHARS) + "…" : firstPrompt
+}
+
+// Pinned conversations first, then the most recently updated
+function sortConversations(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt)
+}
+
+// Helper function to save a conversation to the server store and remember that the server has it
+async function uploadConversation(conversation: Conversation) {
+  await saveServerConversation(conversation)
+  await db.markSynced(conversation.id)
+}
+
+/**
+ * Bring IndexedDB and the server store (/api/conversations) in line, the most
+ * recently updated copy of each conversation winning. Conversations only kept
+ * locally are uploaded, unless the server has had them before: those were
+ * deleted on another device and are deleted here too. Returns the changed and
+ * the deleted conversations.
+ */
+async function syncWithServer(local: Conversation[]): Promise<{ changed: Conversation[]; deleted: string[] }> {
+  const [summaries, syncedIds] = await Promise.all([listServerConversations(), db.listSyncedIds()])
+  const localById = new Map(local.map((conversation) => [conversation.id, conversation]))
+  const changed: Conversation[] = []
+  const deleted: string[] = []
+
+  for (const summary of summaries) {
+    const stored = localById.get(summary.id)
+    if (!stored || summary.updatedAt > stored.updatedAt) {
+      const conversation = await getServerConversation(summary.id)
+      await db.saveConversation(conversation)
+      await db.markSynced(conversation.id)
+      changed.push(conversation)
+    } else if (stored.updatedAt > summary.updatedAt) {
+      await uploadConversation(stored)
+    } else if (!syncedIds.has(summary.id)) {
+      await db.markSynced(summary.id)
+    }
+  }
+
+  const onServer = new Set(summaries.map(({ id }) => id))
+  for (const conversation of local.filter(({ id }) => !onServer.has(id))) {
+    if (syncedIds.has(conversation.id)) {
+      await db.deleteConversation(conversation.id)
+      await db.unmarkSynced(conversation.id)
+      deleted.push(conversation.id)
+    } else {
+      await uploadConversation(conversation)
+    }
+  }
+  return { changed, deleted }
+}
+
+/**
+ * The conversation history. Conversations are kept in IndexedDB, so the
+ * sidebar loads at once and works offline, and synced with the server store
+ * so the same history is available from any device: on load, and after every
+ * change. Without a reachable server store the history stays local.
+ */
+export function useConversations() {
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [isLoaded, setIsLoaded] = useState(false)
+  // Pending server saves, by conversation id
+  const uploadTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>())
+
+  useEffect(() => {
+    let active = true
+    db.listConversations()
+      .then(async (stored) => {
+        if (!active) return
+        setConversations(sortConversations(stored))
+        setIsLoaded(true)
+
+        const { changed, deleted } = await syncWithServer(stored)
+        if (!active || (changed.length === 0 && deleted.length === 0)) return
+        const replaced = new Set([...deleted, ...changed.map(({ id }) => id)])
+        setConversations((prev) => sortConversations([...changed, ...prev.filter(({ id }) => !replaced.has(id))]))
+        setActiveId((current) => (current && deleted.includes(current) ? null : current))
+      })
+      .catch((error) => console.error("Failed to load conversations:", error))
+      .finally(() => active && setIsLoaded(true))
+
+    const timers = uploadTimers.current
+    return () => {
+      active = false
+      timers.forEach(clearTimeout)
+    }
+  }, [])
+
+  // Helper function to save a conversation to the server once it has stopped changing
+  const scheduleUpload = useCallback((conversation: Conversation) => {
+    const timers = uploadTimers.current
+    clearTimeout(timers.get(conversation.id))
+    timers.set(
+      conversation.id,
+      setTimeout(() => {
+        timers.delete(conversation.id)
+        // A failed save is retried when the history is next loaded, as the local copy is then newer
+        uploadConversation(conversation).catch((error) => console.warn("Failed to save conversation to server:", error))
+      }, SERVER_SAVE_DELAY_MS),
+    )
+  }, [])
+
+  // Write a conversation to IndexedDB and the server, and mirror it in state
+  const persist = useCallback(
+    async (conversation: Conversation) => {
+      setConversations((prev) => sortConversations([conversation, ...prev.filter((c) => c.id !== conversation.id)]))
+      scheduleUpload(conversation)
+      try {
+        await db.saveConversation(conversation)
+      } catch (error) {
+        console.error("Failed to save conversation:", error)
+      }
+    },
+    [scheduleUpload],
+  )
+
+  const createConversation = useCallback(
+    (fields: Pick<Conversation, "messages"> & Partial<Pick<Conversation, "model" | "params" | "currentLeafId">>) => {
+      const now = Date.now()
+      const conversation: Conversation = {
+        id: crypto.randomUUID(),
+        title: titleFromMessages(fields.messages),
+        pinned: false,
+        ...fields,
+        createdAt: now,
+        updatedAt: now,
+      }
+      setActiveId(conversation.id)
+      void persist(conversation)
+      return conversation
+    },
+    [persist],
+  )
+
+  const updateConversation = useCallback(
+    (id: string, changes: Partial<Omit<Conversation, "id" | "createdAt">>, touch = true) => {
+      const current = conversations.find((conversation) => conversation.id === id)
+      if (current) {
+        void persist({ ...current, ...changes, updatedAt: touch ? Date.now() : current.updatedAt })
+      }
+    },
+    [conversations, persist],
+  )
+
+  const renameConversation = useCallback(
+    (id: string, title: string) => {
+      const trimmed = title.trim()
+      if (trimmed) updateConversation(id, { title: trimmed }, false)
+    },
+    [updateConversation],
+  )
+
+  const togglePinned = useCallback(
+    (id: string) => {
+      const conversation = conversations.find((c) => c.id === id)
+      if (conversation) updateConversation(id, { pinned: !conversation.pinned }, false)
+    },
+    [conversations, updateConversation],
+  )
+
+  // Add an imported conversation under a new id, so importing the same file twice keeps both copies
+  const importConversation = useCallback(
+    (imported: ConversationExport["conversation"]) => {
+      const now = Date.now()
+      const conversation: Conversation = {
+        ...imported,
+        id: crypto.randomUUID(),
+        pinned: false,
+        createdAt: imported.createdAt ?? now,
+        updatedAt: now,
+      }
+      setActiveId(conversation.id)
+      void persist(conversation)
+      return conversation
+    },
+    [persist],
+  )
+
+  const removeConversation = useCallback(async (id: string) => {
+    setConversations((prev) => prev.filter((conversation) => conversation.id !== id))
+    setActiveId((current) => (current === id ? null : current))
+    clearTimeout(uploadTimers.current.get(id))
+    uploadTimers.current.delete(id)
+    try {
+      await db.deleteConversation(id)
+      await deleteServerConversation(id)
+      await db.unmarkSynced(id)
+    } catch (error) {
+      console.error("Failed to delete conversation:", error)
+    }
+  }, [])
+
+  return {
+    conversations,
+    activeConversation: conversations.find((conversation) => conversation.id === activeId) ?? null,
+    activeId,
+    isLoaded,
+    setActiveId,
+    createConversation,
+    updateConversation,
+    renameConversation,
+    togglePinned,
+    importConversation,
+    removeConversation,
+  }
+}
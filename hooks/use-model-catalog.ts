@@ -0,0 +1,22 @@
+"use client"
+import { useEffect, useState } from "react"
+
+import { DEFAULT_MODEL_CATALOG, DEFAULT_MODEL_ID, type ModelInfo } from "@/lib/models"
+
+// Fetch the server's model catalog, starting from the built-in one until it arrives
+export function useModelCatalog() {
+  const [models, setModels] = useState<ModelInfo[]>(DEFAULT_MODEL_CATALOG)
+  const [defaultModel, setDefaultModel] = useState(DEFAULT_MODEL_ID)
+
+  useEffect(() => {
+    fetch("/api/models")
+      .then((response) => (response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`))))
+      .then((data: { models: ModelInfo[]; defaultModel?: string }) => {
+        if (Array.isArray(data.models) && data.models.length > 0) setModels(data.models)
+        if (data.defaultModel) setDefaultModel(data.defaultModel)
+      })
+      .catch((error) => console.error("Failed to load model catalog:", error))
+  }, [])
+
+  return { models, defaultModel }
+}
@@ -0,0 +1,23 @@
+"use client"
+import { useCallback, useEffect, useState } from "react"
+
+import type { SessionInfo } from "@/lib/auth/types"
+
+// The signed-in user and the login methods the server offers
+export function useSession() {
+  const [session, setSession] = useState<SessionInfo | null>(null)
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((response) => (response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`))))
+      .then((data: SessionInfo) => setSession(data))
+      .catch((error) => console.error("Failed to load session:", error))
+  }, [])
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/auth/logout", { method: "POST" })
+    window.location.href = "/login"
+  }, [])
+
+  return { session, signOut }
+}
@@ -0,0 +1,107 @@
+"use client"
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { transcribeAudio } from "@/lib/chat-client"
+import { MAX_AUDIO_BYTES } from "@/lib/speech"
+
+export type RecorderState = "idle" | "recording" | "transcribing"
+
+interface VoiceRecorderOptions {
+  // Called with the text of each finished recording
+  onTranscript: (text: string) => void
+  onError: (message: string) => void
+}
+
+// Record from the microphone and transcribe the recording on the server when it stops
+export function useVoiceRecorder({ onTranscript, onError }: VoiceRecorderOptions) {
+  const [state, setState] = useState<RecorderState>("idle")
+  const [supported, setSupported] = useState(false)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  // Set when a recording is cancelled, so it is thrown away instead of transcribed
+  const cancelledRef = useRef(false)
+  const abortRef = useRef<AbortController | null>(null)
+  // The latest callbacks, so a recording in progress reports to the current ones
+  const callbacksRef = useRef({ onTranscript, onError })
+  callbacksRef.current = { onTranscript, onError }
+
+  // Recording needs a secure context with MediaRecorder, which is only known in the browser
+  useEffect(() => {
+    setSupported(typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia)
+  }, [])
+
+  const transcribe = useCallback(async (audio: Blob) => {
+    if (audio.size === 0) {
+      setState("idle")
+      return
+    }
+    if (audio.size > MAX_AUDIO_BYTES) {
+      callbacksRef.current.onError("The recording is too long to transcribe")
+      setState("idle")
+      return
+    }
+
+    setState("transcribing")
+    abortRef.current = new AbortController()
+    try {
+      const text = await transcribeAudio(audio, abortRef.current.signal)
+      if (text) callbacksRef.current.onTranscript(text)
+    } catch (error) {
+      if (!(error instanceof Error && error.name === "AbortError")) {
+        const reason = error instanceof Error ? error.message : "unknown error"
+        callbacksRef.current.onError(`Could not transcribe the recording: ${reason}`)
+      }
+    } finally {
+      abortRef.current = null
+      setState("idle")
+    }
+  }, [])
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return
+
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+    } catch {
+      callbacksRef.current.onError("Microphone access was denied")
+      return
+    }
+
+    const recorder = new MediaRecorder(stream)
+    const chunks: Blob[] = []
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data)
+    }
+    recorder.onstop = () => {
+      // Release the microphone as soon as recording ends
+      stream.getTracks().forEach((track) => track.stop())
+      recorderRef.current = null
+      if (cancelledRef.current) {
+        setState("idle")
+        return
+      }
+      void transcribe(new Blob(chunks, { type: recorder.mimeType }))
+    }
+
+    cancelledRef.current = false
+    recorderRef.current = recorder
+    recorder.start()
+    setState("recording")
+  }, [transcribe])
+
+  const stop = useCallback(() => {
+    recorderRef.current?.stop()
+  }, [])
+
+  // Throw away the recording in progress, or stop waiting for its transcript
+  const cancel = useCallback(() => {
+    cancelledRef.current = true
+    recorderRef.current?.stop()
+    abortRef.current?.abort()
+  }, [])
+
+  // Stop recording when the page goes away
+  useEffect(() => cancel, [cancel])
+
+  return { state, supported, start, stop, cancel }
+}
@@ -0,0 +1,185 @@
+import type { ToolCall } from "@/lib/tools/types"
+
+export interface Usage {
+  promptTokens?: number
+  completionTokens?: number
+  totalTokens?: number
+}
+
+/**
+ * Describes how to read one backend's response payloads. Each reader returns
+ * `undefined` when the field is absent, so a payload nobody recognizes can be
+ * reported as an error instead of being guessed at.
+ */
+export interface ResponseAdapter {
+  id: string
+  readText(data: any): string | undefined
+  readFinishReason(data: any): string | undefined
+  readUsage(data: any): Usage | undefined
+  readError(data: any): string | undefined
+  // Text carried by a single streamed (SSE) event
+  readDelta(event: any): string | undefined
+  // Tool calls the model asked for in a complete response
+  readToolCalls(data: any): ToolCall[] | undefined
+}
+
+export interface AdaptedResponse {
+  text: string
+  finishReason?: string
+  usage?: Usage
+  toolCalls?: ToolCall[]
+}
+
+/**
+ * Raised when the backend reports an error inside an otherwise successful
+ * response. Backends may echo the prompt in their errors, so the message is
+ * generic and the backend's own text is kept in `responseText`, for logging
+ * as a redacted field.
+ */
+export class UpstreamResponseError extends Error {
+  responseText?: string
+
+  constructor(responseText?: string) {
+    super("The backend reported an error")
+    this.name = "UpstreamResponseError"
+    this.responseText = responseText
+  }
+}
+
+// Raised when a payload does not match the shape its adapter expects
+export class UnsupportedResponseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "UnsupportedResponseError"
+  }
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined
+}
+
+// Helper function to read tool call arguments, which OpenAI-style backends send as JSON text
+function parseToolArguments(args: unknown): unknown {
+  if (typeof args !== "string") return args ?? {}
+  try {
+    return JSON.parse(args)
+  } catch {
+    // Left as text, which the tool's schema reports back to the model
+    return args
+  }
+}
+
+/**
+ * Read a list of tool calls in the OpenAI shape (`{ id, function: { name, arguments } }`)
+ * or the older Workers AI one (`{ name, arguments }`). Calls without an id get one,
+ * so results can be matched to them.
+ */
+function readToolCallList(calls: unknown): ToolCall[] | undefined {
+  if (!Array.isArray(calls) || calls.length === 0) return undefined
+  return calls.flatMap((call: any) => {
+    const name = asString(call?.function?.name) ?? asString(call?.name)
+    if (!name) return []
+    return [
+      {
+        id: asString(call.id) || `call_${crypto.randomUUID().slice(0, 8)}`,
+        name,
+        arguments: parseToolArguments(call.function ? call.function.arguments : call.arguments),
+      },
+    ]
+  })
+}
+
+// Workers AI wraps model output in `{ result: ... }` over REST and in the example worker
+function unwrapWorkersAI(data: any): any {
+  return data && typeof data === "object" && data.result && typeof data.result === "object" ? data.result : data
+}
+
+// Helper function to read OpenAI-style usage counters
+function readOpenAIUsage(usage: any): Usage | undefined {
+  if (!usage || typeof usage !== "object") return undefined
+  return {
+    promptTokens: asNumber(usage.prompt_tokens),
+    completionTokens: asNumber(usage.completion_tokens),
+    totalTokens: asNumber(usage.total_tokens),
+  }
+}
+
+// Text-generation models on Cloudflare Workers AI (`@cf/...` and `@hf/...`)
+const workersAIAdapter: ResponseAdapter = {
+  id: "workers-ai",
+  // Image-to-text models such as LLaVA answer with `description`
+  readText: (data) =>
+    asString(data) ?? asString(unwrapWorkersAI(data)?.response) ?? asString(unwrapWorkersAI(data)?.description),
+  readFinishReason: (data) => asString(unwrapWorkersAI(data)?.finish_reason),
+  readUsage: (data) => readOpenAIUsage(unwrapWorkersAI(data)?.usage),
+  readError: (data) => {
+    if (typeof data?.error === "string") return data.error
+    if (data?.success === false && Array.isArray(data.errors)) {
+      return data.errors.map((error: any) => error?.message || String(error)).join("; ") || "Unknown error"
+    }
+    return undefined
+  },
+  readDelta: (event) => asString(event?.response),
+  readToolCalls: (data) => readToolCallList(unwrapWorkersAI(data)?.tool_calls),
+}
+
+// OpenAI-compatible chat completion servers
+const openAIAdapter: ResponseAdapter = {
+  id: "openai",
+  readText: (data) => asString(data?.choices?.[0]?.message?.content),
+  readFinishReason: (data) => asString(data?.choices?.[0]?.finish_reason),
+  readUsage: (data) => readOpenAIUsage(data?.usage),
+  readError: (data) => asString(data?.error?.message) ?? asString(data?.error),
+  readDelta: (event) => asString(event?.choices?.[0]?.delta?.content),
+  readToolCalls: (data) => readToolCallList(data?.choices?.[0]?.message?.tool_calls),
+}
+
+export const RESPONSE_ADAPTERS: Record<string, ResponseAdapter> = {
+  [workersAIAdapter.id]: workersAIAdapter,
+  [openAIAdapter.id]: openAIAdapter,
+}
+
+// Model id prefixes and the adapter that reads their responses
+const MODEL_FAMILY_ADAPTERS: [prefix: string, adapterId: string][] = [
+  ["@cf/", workersAIAdapter.id],
+  ["@hf/", workersAIAdapter.id],
+]
+
+export function getResponseAdapter(model?: string): ResponseAdapter {
+  const family = MODEL_FAMILY_ADAPTERS.find(([prefix]) => model?.startsWith(prefix))
+  return RESPONSE_ADAPTERS[family ? family[1] : workersAIAdapter.id]
+}
+
+// Describe a payload's top-level shape without echoing its content
+function describeShape(data: unknown): string {
+  if (Array.isArray(data)) return "array"
+  if (data && typeof data === "object") return `object with keys [${Object.keys(data).join(", ")}]`
+  return typeof data
+}
+
+/**
+ * Read a complete (non-streamed) response with the given adapter. Throws
+ * `UpstreamResponseError` for error payloads and `UnsupportedResponseError`
+ * when the text cannot be found where the adapter expects it.
+ */
+export function adaptResponse(adapter: ResponseAdapter, data: unknown): AdaptedResponse {
+  const error = adapter.readError(data)
+  if (error) {
+    throw new UpstreamResponseError(error)
+  }
+
+  // A reply that only calls tools may have no text
+  const toolCalls = adapter.readToolCalls(data)
+  const text = adapter.readText(data) ?? (toolCalls ? "" : undefined)
+  if (text === undefined) {
+    throw new UnsupportedResponseError(
+      `Unrecognized response from the ${adapter.id} backend (${describeShape(data)})`,
+    )
+  }
+
+  return { text, finishReason: adapter.readFinishReason(data), usage: adapter.readUsage(data), toolCalls }
+}
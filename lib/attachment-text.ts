@@ -0,0 +1,58 @@
+import { getAttachmentKind, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENT_CHARS, formatFileSize } from "@/lib/attachments"
+import { extractPdfText } from "@/lib/pdf-text"
+import type { Attachment, AttachmentKind } from "@/lib/types"
+
+// Raised when an uploaded file cannot be used as an attachment; the message is shown to the user
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AttachmentError"
+  }
+}
+
+// Helper function to decode a text file, rejecting binary files that were renamed
+function decodeText(bytes: Buffer, name: string): string {
+  if (bytes.includes(0)) throw new AttachmentError(`${name} is not a text file`)
+  // Drop the byte order mark some editors write
+  return new TextDecoder("utf-8").decode(bytes).replace(/^﻿/, "")
+}
+
+/**
+ * Read an uploaded file and extract its text; PDF extraction stops soon after
+ * `maxChars` characters. Throws an AttachmentError when the file is too large,
+ * of an unsupported type or has no text.
+ */
+export async function extractFileText(
+  file: File,
+  maxChars: number,
+): Promise<{ kind: AttachmentKind; text: string }> {
+  const kind = getAttachmentKind(file.name, file.type)
+  if (!kind) throw new AttachmentError(`${file.name} is not a supported file type`)
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`)
+  }
+
+  const bytes = Buffer.from(await file.arrayBuffer())
+  const text = (kind === "pdf" ? extractPdfText(bytes, maxChars) : decodeText(bytes, file.name)).replace(/\r\n?/g, "\n")
+  if (!text.trim()) {
+    throw new AttachmentError(
+      kind === "pdf" ? `No text could be extracted from ${file.name}; it may be a scan` : `${file.name} is empty`,
+    )
+  }
+  return { kind, text }
+}
+
+// Read an uploaded file as an attachment, with its text cut off at MAX_ATTACHMENT_CHARS
+export async function extractAttachment(file: File): Promise<Attachment> {
+  // One character more than is kept tells whether the text was cut off
+  const { kind, text } = await extractFileText(file, MAX_ATTACHMENT_CHARS + 1)
+  const truncated = text.length > MAX_ATTACHMENT_CHARS
+  return {
+    id: crypto.randomUUID(),
+    name: file.name,
+    kind,
+    size: file.size,
+    text: truncated ? text.slice(0, MAX_ATTACHMENT_CHARS) : text,
+    ...(truncated && { truncated }),
+  }
+}
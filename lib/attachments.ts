@@ -0,0 +1,101 @@
+import type { Attachment, AttachmentKind } from "@/lib/types"
+
+/**
+ * Files attached to a user message. The server extracts their text when they
+ * are uploaded (see lib/attachment-text.ts); the text is stored with the
+ * message and sent to the model as delimited blocks after the message text,
+ * where it counts against the context window like the rest of the message.
+ */
+
+export const ATTACHMENT_KINDS = ["text", "code", "markdown", "csv", "pdf"] as const
+
+// Largest file accepted for upload
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024
+// Extracted text beyond this is cut off (about 12k tokens)
+export const MAX_ATTACHMENT_CHARS = 50000
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5
+
+const CODE_EXTENSIONS = new Set([
+  "c",
+  "cc",
+  "cpp",
+  "cs",
+  "css",
+  "go",
+  "h",
+  "hpp",
+  "html",
+  "java",
+  "js",
+  "json",
+  "jsx",
+  "kt",
+  "mjs",
+  "php",
+  "py",
+  "rb",
+  "rs",
+  "scss",
+  "sh",
+  "sql",
+  "swift",
+  "toml",
+  "ts",
+  "tsx",
+  "xml",
+  "yaml",
+  "yml",
+])
+const TEXT_EXTENSIONS = new Set(["txt", "log", "env", "ini", "conf", "cfg"])
+
+// Extensions offered in the file picker
+export const ATTACHMENT_ACCEPT = [
+  ".md",
+  ".markdown",
+  ".csv",
+  ".pdf",
+  ...[...TEXT_EXTENSIONS, ...CODE_EXTENSIONS].map((extension) => `.${extension}`),
+].join(",")
+
+/**
+ * The kind of an attachment from its file name, or from its MIME type when the
+ * extension is unknown. Returns undefined for unsupported files.
+ */
+export function getAttachmentKind(fileName: string, mimeType = ""): AttachmentKind | undefined {
+  const extension = fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase() : ""
+  if (extension === "pdf" || mimeType === "application/pdf") return "pdf"
+  if (extension === "md" || extension === "markdown" || mimeType === "text/markdown") return "markdown"
+  if (extension === "csv" || mimeType === "text/csv") return "csv"
+  if (CODE_EXTENSIONS.has(extension)) return "code"
+  if (TEXT_EXTENSIONS.has(extension) || mimeType.startsWith("text/")) return "text"
+  return undefined
+}
+
+// Human-readable file size, e.g. "12 KB"
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Helper function to quote an attribute value inside an attachment header
+function quoteAttribute(value: string): string {
+  return `"${value.replace(/["\n\r]/g, " ")}"`
+}
+
+// One attachment as the model sees it: its text between an opening and a closing tag
+export function formatAttachmentBlock(attachment: Pick<Attachment, "name" | "kind" | "text" | "truncated">): string {
+  const attributes = [`name=${quoteAttribute(attachment.name)}`, `type=${quoteAttribute(attachment.kind)}`]
+  if (attachment.truncated) attributes.push(`truncated="true"`)
+  // A closing tag inside the file must not end the block early
+  const text = attachment.text.replace(/<\/attachment>/gi, "<\\/attachment>")
+  return `<attachment ${attributes.join(" ")}>\n${text}\n</attachment>`
+}
+
+// The content of a message as sent to the model: its text followed by its attachments
+export function withAttachments(message: { content?: string; attachments?: Attachment[] }): string {
+  const blocks = (message.attachments || []).map(formatAttachmentBlock)
+  if (blocks.length === 0) return message.content || ""
+  const intro = `The user attached ${blocks.length === 1 ? "a file" : `${blocks.length} files`}:`
+  return [message.content, intro, ...blocks].filter((part) => part && part.trim().length > 0).join("\n\n")
+}
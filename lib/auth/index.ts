@@ -0,0 +1,104 @@
+import { getOidcConfig } from "@/lib/auth/oidc"
+import { readSession, safeEqual } from "@/lib/auth/session"
+import type { AuthUser, SessionInfo } from "@/lib/auth/types"
+
+export type { AuthMethod, AuthUser, SessionInfo } from "@/lib/auth/types"
+export { AuthConfigError } from "@/lib/auth/types"
+
+/**
+ * Authentication is configured with environment variables, and any
+ * combination of methods can be enabled at once:
+ * - AUTH_PASSWORD: a shared password, exchanged for a session cookie at /login;
+ *   single-user, as everyone who signs in with it is the same user
+ * - API_KEYS: `name:key` pairs, comma-separated, sent as `Authorization: Bearer <key>`
+ *   or `X-API-Key: <key>` by programmatic callers
+ * - OIDC_ISSUER and OIDC_CLIENT_ID (plus OIDC_CLIENT_SECRET): single sign-on
+ * Password and OIDC sessions are signed with AUTH_SECRET. With no method
+ * configured the app stays open and callers are identified by IP address,
+ * which is only known behind a proxy trusted with TRUST_PROXY.
+ */
+
+// Helper function to read API_KEYS into key -> name
+function readApiKeys(): Map<string, string> {
+  const keys = new Map<string, string>()
+  for (const entry of (process.env.API_KEYS || "").split(",")) {
+    const separator = entry.indexOf(":")
+    const name = entry.slice(0, separator).trim()
+    const key = entry.slice(separator + 1).trim()
+    if (separator > 0 && key) keys.set(key, name)
+  }
+  return keys
+}
+
+export function getAuthMethods(): SessionInfo["methods"] & { apiKeys: boolean } {
+  return {
+    password: !!process.env.AUTH_PASSWORD,
+    oidc: !!getOidcConfig(),
+    apiKeys: readApiKeys().size > 0,
+  }
+}
+
+export function isAuthRequired(): boolean {
+  const methods = getAuthMethods()
+  return methods.password || methods.oidc || methods.apiKeys
+}
+
+// Helper function to read TRUST_PROXY: how many proxies in front of the app add to X-Forwarded-For ("true" is one)
+function getTrustedProxyCount(): number {
+  const value = (process.env.TRUST_PROXY || "").trim().toLowerCase()
+  if (value === "true") return 1
+  const count = Number(value)
+  return Number.isInteger(count) && count > 0 ? count : 0
+}
+
+/**
+ * The client's IP address, as reported by the trusted proxies in front of the
+ * app. Clients can send any X-Forwarded-For they like, so the headers are only
+ * read when TRUST_PROXY is set, and then the address added by the outermost
+ * trusted proxy is used rather than the first one. Without a trusted proxy the
+ * app cannot see the address at all, and undefined is returned.
+ */
+export function getClientIp(req: Request): string | undefined {
+  const proxies = getTrustedProxyCount()
+  if (!proxies) return undefined
+
+  const forwarded = (req.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean)
+  if (forwarded.length) return forwarded[Math.max(0, forwarded.length - proxies)]
+  return req.headers.get("x-real-ip")?.trim() || undefined
+}
+
+export function verifyPassword(password: string): boolean {
+  const expected = process.env.AUTH_PASSWORD
+  return !!expected && safeEqual(password, expected)
+}
+
+// Helper function to find the API key a request carries, if any
+function readApiKey(req: Request): string | undefined {
+  const authorization = req.headers.get("authorization")
+  if (authorization?.toLowerCase().startsWith("bearer ")) return authorization.slice(7).trim()
+  return req.headers.get("x-api-key")?.trim() || undefined
+}
+
+/**
+ * Identify the caller from an API key or a session cookie. Returns null when
+ * authentication is required and the request carries no valid credentials.
+ */
+export function authenticate(req: Request): AuthUser | null {
+  if (!isAuthRequired()) {
+    const ip = getClientIp(req)
+    return { id: ip ? `ip:${ip}` : "anonymous", name: "Anonymous", method: "anonymous" }
+  }
+
+  const apiKey = readApiKey(req)
+  if (apiKey) {
+    for (const [key, name] of readApiKeys()) {
+      if (safeEqual(apiKey, key)) return { id: `api-key:${name}`, name, method: "api-key" }
+    }
+    return null
+  }
+
+  return readSession(req)
+}
@@ -0,0 +1,234 @@
+import {
+  constants,
+  createHash,
+  createHmac,
+  createPublicKey,
+  randomBytes,
+  timingSafeEqual,
+  verify,
+  type JsonWebKey,
+} from "crypto"
+
+import { readCookie, sealValue, serializeCookie, unsealValue } from "@/lib/auth/session"
+import type { AuthUser } from "@/lib/auth/types"
+
+/**
+ * OpenID Connect login with the authorization code flow and PKCE. The ID
+ * token's signature is verified against the provider's published keys (or,
+ * for HS256 and friends, the client secret), then its claims are checked
+ * (issuer, audience, expiry, nonce).
+ */
+
+const STATE_COOKIE = "chat_oidc"
+const STATE_TTL_SECONDS = 10 * 60
+const DISCOVERY_TTL_MS = 60 * 60 * 1000
+
+interface OidcConfig {
+  issuer: string
+  clientId: string
+  clientSecret?: string
+  scopes: string
+  redirectUri?: string
+}
+
+interface OidcMetadata {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri?: string
+}
+
+// Login state kept in a sealed cookie between the redirect and the callback
+interface LoginState {
+  state: string
+  nonce: string
+  verifier: string
+  redirectUri: string
+}
+
+let discoveryCache: { issuer: string; metadata: OidcMetadata; fetchedAt: number } | null = null
+let keysCache: { uri: string; keys: JsonWebKey[]; fetchedAt: number } | null = null
+
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER
+  const clientId = process.env.OIDC_CLIENT_ID
+  if (!issuer || !clientId) return null
+  return {
+    issuer: issuer.replace(/\/+$/, ""),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    scopes: process.env.OIDC_SCOPES || "openid email profile",
+    redirectUri: process.env.OIDC_REDIRECT_URI,
+  }
+}
+
+// Helper function to fetch the provider's endpoints from its discovery document
+async function discover(config: OidcConfig): Promise<OidcMetadata> {
+  if (discoveryCache?.issuer === config.issuer && Date.now() - discoveryCache.fetchedAt < DISCOVERY_TTL_MS) {
+    return discoveryCache.metadata
+  }
+
+  const response = await fetch(`${config.issuer}/.well-known/openid-configuration`)
+  if (!response.ok) throw new Error(`OIDC discovery failed with status ${response.status}`)
+  const metadata: OidcMetadata = await response.json()
+  discoveryCache = { issuer: config.issuer, metadata, fetchedAt: Date.now() }
+  return metadata
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString("base64url")
+}
+
+/**
+ * Start a login: returns the provider URL to redirect to and the cookie that
+ * remembers the state, nonce and PKCE verifier until the callback.
+ */
+export async function beginOidcLogin(
+  config: OidcConfig,
+  requestUrl: string,
+): Promise<{ location: string; cookie: string }> {
+  const metadata = await discover(config)
+  const loginState: LoginState = {
+    state: randomToken(),
+    nonce: randomToken(),
+    verifier: randomToken(),
+    redirectUri: config.redirectUri || new URL("/api/auth/oidc/callback", requestUrl).toString(),
+  }
+
+  const url = new URL(metadata.authorization_endpoint)
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: loginState.redirectUri,
+    scope: config.scopes,
+    state: loginState.state,
+    nonce: loginState.nonce,
+    code_challenge: createHash("sha256").update(loginState.verifier).digest("base64url"),
+    code_challenge_method: "S256",
+  }).toString()
+
+  const sealed = sealValue(loginState, Date.now() + STATE_TTL_SECONDS * 1000)
+  return { location: url.toString(), cookie: serializeCookie(STATE_COOKIE, sealed, STATE_TTL_SECONDS) }
+}
+
+// Helper function to fetch the provider's signing keys; `refresh` skips the cache after the provider rotated them
+async function fetchSigningKeys(metadata: OidcMetadata, refresh: boolean): Promise<JsonWebKey[]> {
+  if (!metadata.jwks_uri) throw new Error("The provider does not publish signing keys (jwks_uri)")
+  if (!refresh && keysCache?.uri === metadata.jwks_uri && Date.now() - keysCache.fetchedAt < DISCOVERY_TTL_MS) {
+    return keysCache.keys
+  }
+
+  const response = await fetch(metadata.jwks_uri)
+  if (!response.ok) throw new Error(`Fetching the provider's signing keys failed with status ${response.status}`)
+  const { keys } = await response.json()
+  if (!Array.isArray(keys)) throw new Error("The provider's signing keys are malformed")
+  keysCache = { uri: metadata.jwks_uri, keys, fetchedAt: Date.now() }
+  return keys
+}
+
+// Signature algorithms accepted for ID tokens; HS* tokens are signed with the client secret, the others with the JWKS
+const HMAC_ALGORITHM = /^HS(256|384|512)$/
+const KEY_ALGORITHM = /^(RS|PS|ES)(256|384|512)$|^EdDSA$/
+
+// Helper function to check a JWS signature with one public key; a key of the wrong type fails the check
+function verifyWithKey(algorithm: string, jwk: JsonWebKey, data: Buffer, signature: Buffer): boolean {
+  const hash = algorithm === "EdDSA" ? null : `sha${algorithm.slice(2)}`
+  try {
+    const key = createPublicKey({ key: jwk, format: "jwk" })
+    if (algorithm.startsWith("PS")) {
+      const padding = { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST }
+      return verify(hash, data, { key, ...padding }, signature)
+    }
+    if (algorithm.startsWith("ES")) return verify(hash, data, { key, dsaEncoding: "ieee-p1363" }, signature)
+    return verify(hash, data, key, signature)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Verify an ID token's signature and return its claims. Asymmetric tokens are
+ * checked against the provider's JWKS, fetched again once when no key matches
+ * the token's `kid`; HMAC tokens need the client secret. Unsigned tokens
+ * ("none") are rejected.
+ */
+async function verifyIdToken(token: string, config: OidcConfig, metadata: OidcMetadata): Promise<Record<string, any>> {
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split(".")
+  if (!encodedHeader || !encodedPayload || encodedSignature === undefined) throw new Error("Malformed ID token")
+
+  const header = JSON.parse(Buffer.from(encodedHeader, "base64url").toString())
+  const algorithm = typeof header.alg === "string" ? header.alg : "none"
+  const data = Buffer.from(`${encodedHeader}.${encodedPayload}`)
+  const signature = Buffer.from(encodedSignature, "base64url")
+
+  let valid = false
+  if (HMAC_ALGORITHM.test(algorithm)) {
+    if (!config.clientSecret) throw new Error(`ID token signed with ${algorithm} needs OIDC_CLIENT_SECRET`)
+    const expected = createHmac(`sha${algorithm.slice(2)}`, config.clientSecret).update(data).digest()
+    valid = expected.length === signature.length && timingSafeEqual(expected, signature)
+  } else if (KEY_ALGORITHM.test(algorithm)) {
+    for (const refresh of [false, true]) {
+      const candidates = (await fetchSigningKeys(metadata, refresh)).filter(
+        (key) =>
+          (!header.kid || key.kid === header.kid) &&
+          (!key.use || key.use === "sig") &&
+          (!key.alg || key.alg === algorithm),
+      )
+      if (!candidates.length && !refresh) continue
+      valid = candidates.some((key) => verifyWithKey(algorithm, key, data, signature))
+      break
+    }
+  } else {
+    throw new Error(`ID token algorithm ${algorithm} is not accepted`)
+  }
+  if (!valid) throw new Error("ID token signature is invalid")
+
+  return JSON.parse(Buffer.from(encodedPayload, "base64url").toString())
+}
+
+/**
+ * Finish a login from the provider's callback: check the state, exchange the
+ * code for tokens and validate the ID token. Throws with a user-facing
+ * message when anything does not match.
+ */
+export async function completeOidcLogin(config: OidcConfig, req: Request): Promise<AuthUser> {
+  const params = new URL(req.url).searchParams
+  const loginState = unsealValue<LoginState>(readCookie(req, STATE_COOKIE))
+  if (params.get("error")) throw new Error(`Login failed: ${params.get("error_description") || params.get("error")}`)
+  if (!loginState || params.get("state") !== loginState.state) throw new Error("Login expired, please try again")
+
+  const metadata = await discover(config)
+  const response = await fetch(metadata.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: params.get("code") || "",
+      redirect_uri: loginState.redirectUri,
+      client_id: config.clientId,
+      ...(config.clientSecret && { client_secret: config.clientSecret }),
+      code_verifier: loginState.verifier,
+    }),
+  })
+  if (!response.ok) throw new Error(`Token exchange failed with status ${response.status}`)
+
+  const { id_token: idToken } = await response.json()
+  if (typeof idToken !== "string") throw new Error("The provider did not return an ID token")
+
+  const claims = await verifyIdToken(idToken, config, metadata)
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (claims.iss !== metadata.issuer) throw new Error("ID token issuer does not match")
+  if (!audience.includes(config.clientId)) throw new Error("ID token was issued for another client")
+  if (typeof claims.exp !== "number" || claims.exp * 1000 < Date.now()) throw new Error("ID token has expired")
+  if (claims.nonce !== loginState.nonce) throw new Error("ID token nonce does not match")
+
+  return {
+    id: `oidc:${claims.sub}`,
+    name: claims.email || claims.name || claims.preferred_username || claims.sub,
+    method: "oidc",
+  }
+}
+
+export function clearOidcStateCookie(): string {
+  return serializeCookie(STATE_COOKIE, "", 0)
+}
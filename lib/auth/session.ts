@@ -0,0 +1,80 @@
+import { createHmac, timingSafeEqual } from "crypto"
+
+import { AuthConfigError, type AuthUser } from "@/lib/auth/types"
+
+export const SESSION_COOKIE = "chat_session"
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60
+
+// Helper function to read the key that signs cookies
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET
+  if (!secret || secret.length < 32) {
+    throw new AuthConfigError("AUTH_SECRET must be set to at least 32 characters to sign login sessions")
+  }
+  return secret
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSecret()).update(payload).digest("base64url")
+}
+
+// Compare two strings in constant time
+export function safeEqual(a: string, b: string): boolean {
+  const left = createHmac("sha256", "compare").update(a).digest()
+  const right = createHmac("sha256", "compare").update(b).digest()
+  return timingSafeEqual(left, right)
+}
+
+/**
+ * Encode a value as `<base64url JSON>.<HMAC>`, valid until `expiresAt` (ms).
+ * Used for the session cookie and the short-lived OIDC login state.
+ */
+export function sealValue(value: object, expiresAt: number): string {
+  const payload = Buffer.from(JSON.stringify({ ...value, exp: expiresAt })).toString("base64url")
+  return `${payload}.${sign(payload)}`
+}
+
+// Read a sealed value; null when it is missing, tampered with or expired
+export function unsealValue<T>(sealed: string | undefined): T | null {
+  if (!sealed) return null
+  const [payload, signature] = sealed.split(".")
+  if (!payload || !signature || !safeEqual(signature, sign(payload))) return null
+
+  try {
+    const value = JSON.parse(Buffer.from(payload, "base64url").toString())
+    return typeof value?.exp === "number" && value.exp > Date.now() ? (value as T) : null
+  } catch {
+    return null
+  }
+}
+
+// Helper function to read one cookie from a request
+export function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.get("cookie") || "").split(";")) {
+    const [key, ...rest] = part.trim().split("=")
+    if (key === name) return decodeURIComponent(rest.join("="))
+  }
+  return undefined
+}
+
+// Helper function to build a Set-Cookie header value
+export function serializeCookie(name: string, value: string, maxAgeSeconds: number): string {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : ""
+  return `${name}=${encodeURIComponent(value)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAgeSeconds}${secure}`
+}
+
+export function createSessionCookie(user: AuthUser): string {
+  const sealed = sealValue({ user }, Date.now() + SESSION_TTL_SECONDS * 1000)
+  return serializeCookie(SESSION_COOKIE, sealed, SESSION_TTL_SECONDS)
+}
+
+export function clearSessionCookie(): string {
+  return serializeCookie(SESSION_COOKIE, "", 0)
+}
+
+// The user of a valid session cookie, if any
+export function readSession(req: Request): AuthUser | null {
+  const cookie = readCookie(req, SESSION_COOKIE)
+  if (!cookie) return null
+  return unsealValue<{ user: AuthUser }>(cookie)?.user ?? null
+}
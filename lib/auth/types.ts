@@ -0,0 +1,24 @@
+export type AuthMethod = "anonymous" | "password" | "api-key" | "oidc"
+
+export interface AuthUser {
+  // Stable id used for rate limits and quotas, e.g. "oidc:<sub>" or "api-key:<name>"
+  id: string
+  name: string
+  method: AuthMethod
+}
+
+// What the login page needs to know; served by /api/auth/session
+export interface SessionInfo {
+  // Whether the chat requires signing in
+  authRequired: boolean
+  user: AuthUser | null
+  methods: { password: boolean; oidc: boolean }
+}
+
+// Raised when authentication is enabled but misconfigured (e.g. AUTH_SECRET missing)
+export class AuthConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AuthConfigError"
+  }
+}
@@ -0,0 +1,313 @@
+import { z } from "zod"
+
+import { getResponseAdapter, RESPONSE_ADAPTERS, type ResponseAdapter } from "@/lib/adapters"
+import { logger } from "@/lib/logger"
+import type { BackendTool, ToolExchangeMessage } from "@/lib/tools/types"
+import type { BackendMessage } from "@/lib/vision"
+
+/**
+ * A backend profile says where a model's requests go and how they are shaped:
+ * - `worker`: a custom Cloudflare Worker taking `{ messages, model, stream, ...options }`
+ *   (see the README for an example)
+ * - `workers-ai`: the Cloudflare REST API, `/accounts/{id}/ai/run/{model}` with an API token
+ * - `openai`: any OpenAI-compatible `/chat/completions` server, e.g. llama.cpp, Ollama or vLLM
+ *
+ * Profiles come from BACKEND_PROFILES plus the ones implied by CLOUDFLARE_WORKER_URL
+ * and CLOUDFLARE_ACCOUNT_ID/CLOUDFLARE_API_TOKEN. Catalog models pick one with
+ * their `backend` field; others use DEFAULT_BACKEND (or the first profile).
+ */
+const backendProfileSchema = z.discriminatedUnion("kind", [
+  z.object({ id: z.string().min(1), kind: z.literal("worker"), url: z.string().url() }),
+  z.object({
+    id: z.string().min(1),
+    kind: z.literal("workers-ai"),
+    accountId: z.string().min(1),
+    apiToken: z.string().min(1),
+  }),
+  z.object({
+    id: z.string().min(1),
+    kind: z.literal("openai"),
+    baseUrl: z.string().url(),
+    apiKey: z.string().optional(),
+  }),
+])
+
+export type BackendProfile = z.infer<typeof backendProfileSchema>
+
+// What the chat route sends, before it is shaped for a particular backend
+export interface BackendPayload {
+  // Absent for prompt-only models (see lib/vision.ts); tool rounds end with their calls and results
+  messages?: (BackendMessage | ToolExchangeMessage)[]
+  stream: boolean
+  options: Record<string, number>
+  // Model-specific inputs such as a vision model's `image`
+  inputs?: Record<string, unknown>
+  // Tools the model may call (see lib/tools); Workers AI and OpenAI-compatible servers take the same shape
+  tools?: BackendTool[]
+}
+
+// Raised when no profile can serve a model; a server configuration problem
+export class BackendConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "BackendConfigError"
+  }
+}
+
+// Helper function to read BACKEND_PROFILES (a JSON array of profiles)
+function readConfiguredProfiles(): BackendProfile[] {
+  const raw = process.env.BACKEND_PROFILES
+  if (!raw) return []
+
+  try {
+    const entries = JSON.parse(raw)
+    if (!Array.isArray(entries)) throw new Error("expected a JSON array")
+    return entries.flatMap((entry) => {
+      const result = backendProfileSchema.safeParse(entry)
+      if (!result.success) {
+        const issue = result.error.issues[0]
+        logger.error("Ignoring invalid backend profile", { id: entry?.id, error: issue?.message })
+        return []
+      }
+      return [result.data]
+    })
+  } catch (error) {
+    logger.error("Ignoring invalid BACKEND_PROFILES", { error })
+    return []
+  }
+}
+
+// Profiles implied by the Cloudflare environment variables
+function readEnvironmentProfiles(): BackendProfile[] {
+  const profiles: BackendProfile[] = []
+  if (process.env.CLOUDFLARE_WORKER_URL) {
+    profiles.push({ id: "worker", kind: "worker", url: process.env.CLOUDFLARE_WORKER_URL })
+  }
+  if (process.env.CLOUDFLARE_ACCOUNT_ID && process.env.CLOUDFLARE_API_TOKEN) {
+    profiles.push({
+      id: "workers-ai",
+      kind: "workers-ai",
+      accountId: process.env.CLOUDFLARE_ACCOUNT_ID,
+      apiToken: process.env.CLOUDFLARE_API_TOKEN,
+    })
+  }
+  return profiles
+}
+
+// Every configured profile; BACKEND_PROFILES entries win over the implied ones with the same id
+export function getBackendProfiles(): BackendProfile[] {
+  const configured = readConfiguredProfiles()
+  const implied = readEnvironmentProfiles().filter((profile) => !configured.some(({ id }) => id === profile.id))
+  return [...configured, ...implied]
+}
+
+/**
+ * Look up a profile by id (a catalog model's `backend` field), falling back to
+ * DEFAULT_BACKEND or the first configured profile when no id is given.
+ */
+export function getBackendProfile(backendId?: string): BackendProfile {
+  const profiles = getBackendProfiles()
+  const wanted = backendId || process.env.DEFAULT_BACKEND
+  const profile = wanted ? profiles.find(({ id }) => id === wanted) : profiles[0]
+  if (!profile) {
+    throw new BackendConfigError(
+      wanted
+        ? `Backend profile "${wanted}" is not configured`
+        : "No backend configured: set CLOUDFLARE_WORKER_URL, CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN, " +
+          "or BACKEND_PROFILES",
+    )
+  }
+  return profile
+}
+
+// The adapter that reads a profile's responses for a model
+export function getProfileAdapter(profile: BackendProfile, model: string): ResponseAdapter {
+  switch (profile.kind) {
+    case "workers-ai":
+      return RESPONSE_ADAPTERS["workers-ai"]
+    case "openai":
+      return RESPONSE_ADAPTERS.openai
+    default:
+      return getResponseAdapter(model)
+  }
+}
+
+// Shape a chat request for a profile: the URL to call and the fetch options
+export function buildBackendRequest(
+  profile: BackendProfile,
+  model: string,
+  { messages, stream, options, inputs, tools }: BackendPayload,
+): { url: string; init: RequestInit } {
+  const headers: Record<string, string> = { "Content-Type": "application/json" }
+
+  switch (profile.kind) {
+    case "worker":
+      return {
+        url: profile.url,
+        init: {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ messages, stream, ...options, ...inputs, tools, model }),
+        },
+      }
+
+    case "workers-ai":
+      headers.Authorization = `Bearer ${profile.apiToken}`
+      return {
+        url: `https://api.cloudflare.com/client/v4/accounts/${profile.accountId}/ai/run/${model}`,
+        init: { method: "POST", headers, body: JSON.stringify({ messages, stream, ...options, ...inputs, tools }) },
+      }
+
+    case "openai":
+      if (profile.apiKey) headers.Authorization = `Bearer ${profile.apiKey}`
+      return {
+        url: `${profile.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+        init: {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            model,
+            messages,
+            stream,
+            // Ask for token counts in the final streamed chunk
+            ...(stream && { stream_options: { include_usage: true } }),
+            ...options,
+            ...inputs,
+            tools,
+          }),
+        },
+      }
+  }
+}
+
+// Shape a text-to-image request for a profile; OpenAI-compatible servers use their images endpoint
+export function buildImageRequest(
+  profile: BackendProfile,
+  model: string,
+  { prompt, seed }: { prompt: string; seed?: number },
+): { url: string; init: RequestInit } {
+  const headers: Record<string, string> = { "Content-Type": "application/json" }
+
+  switch (profile.kind) {
+    case "worker":
+      return { url: profile.url, init: { method: "POST", headers, body: JSON.stringify({ prompt, seed, model }) } }
+
+    case "workers-ai":
+      headers.Authorization = `Bearer ${profile.apiToken}`
+      return {
+        url: `https://api.cloudflare.com/client/v4/accounts/${profile.accountId}/ai/run/${model}`,
+        init: { method: "POST", headers, body: JSON.stringify({ prompt, seed }) },
+      }
+
+    case "openai":
+      if (profile.apiKey) headers.Authorization = `Bearer ${profile.apiKey}`
+      return {
+        url: `${profile.baseUrl.replace(/\/+$/, "")}/images/generations`,
+        init: {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ model, prompt, seed, n: 1, response_format: "b64_json" }),
+        },
+      }
+  }
+}
+
+// Shape a speech-to-text request for a profile; Workers AI takes the raw audio as the body
+export function buildTranscriptionRequest(
+  profile: BackendProfile,
+  model: string,
+  { audio, mimeType }: { audio: Uint8Array; mimeType: string },
+): { url: string; init: RequestInit } {
+  switch (profile.kind) {
+    case "worker":
+      return {
+        url: profile.url,
+        init: {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ audio: Array.from(audio), model }),
+        },
+      }
+
+    case "workers-ai":
+      return {
+        url: `https://api.cloudflare.com/client/v4/accounts/${profile.accountId}/ai/run/${model}`,
+        init: {
+          method: "POST",
+          headers: { "Content-Type": mimeType, Authorization: `Bearer ${profile.apiToken}` },
+          body: Buffer.from(audio),
+        },
+      }
+
+    case "openai": {
+      // The transcriptions endpoint takes a multipart upload; fetch sets the boundary header
+      const body = new FormData()
+      body.append("model", model)
+      body.append("file", new Blob([Buffer.from(audio)], { type: mimeType }), "recording")
+      return {
+        url: `${profile.baseUrl.replace(/\/+$/, "")}/audio/transcriptions`,
+        init: { method: "POST", headers: profile.apiKey ? { Authorization: `Bearer ${profile.apiKey}` } : {}, body },
+      }
+    }
+  }
+}
+
+// Shape a text-to-speech request for a profile; OpenAI-compatible servers use their speech endpoint
+export function buildSpeechRequest(
+  profile: BackendProfile,
+  model: string,
+  { text }: { text: string },
+): { url: string; init: RequestInit } {
+  const headers: Record<string, string> = { "Content-Type": "application/json" }
+
+  switch (profile.kind) {
+    case "worker":
+      return { url: profile.url, init: { method: "POST", headers, body: JSON.stringify({ prompt: text, model }) } }
+
+    case "workers-ai":
+      headers.Authorization = `Bearer ${profile.apiToken}`
+      return {
+        url: `https://api.cloudflare.com/client/v4/accounts/${profile.accountId}/ai/run/${model}`,
+        init: { method: "POST", headers, body: JSON.stringify({ prompt: text }) },
+      }
+
+    case "openai":
+      if (profile.apiKey) headers.Authorization = `Bearer ${profile.apiKey}`
+      return {
+        url: `${profile.baseUrl.replace(/\/+$/, "")}/audio/speech`,
+        init: {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ model, input: text, voice: "alloy", response_format: "mp3" }),
+        },
+      }
+  }
+}
+
+// Shape an embedding request for a batch of texts; OpenAI-compatible servers use their embeddings endpoint
+export function buildEmbeddingRequest(
+  profile: BackendProfile,
+  model: string,
+  { texts }: { texts: string[] },
+): { url: string; init: RequestInit } {
+  const headers: Record<string, string> = { "Content-Type": "application/json" }
+
+  switch (profile.kind) {
+    case "worker":
+      return { url: profile.url, init: { method: "POST", headers, body: JSON.stringify({ text: texts, model }) } }
+
+    case "workers-ai":
+      headers.Authorization = `Bearer ${profile.apiToken}`
+      return {
+        url: `https://api.cloudflare.com/client/v4/accounts/${profile.accountId}/ai/run/${model}`,
+        init: { method: "POST", headers, body: JSON.stringify({ text: texts }) },
+      }
+
+    case "openai":
+      if (profile.apiKey) headers.Authorization = `Bearer ${profile.apiKey}`
+      return {
+        url: `${profile.baseUrl.replace(/\/+$/, "")}/embeddings`,
+        init: { method: "POST", headers, body: JSON.stringify({ model, input: texts }) },
+      }
+  }
+}
@@ -0,0 +1,449 @@
+import {
+  adaptResponse,
+  UnsupportedResponseError,
+  UpstreamResponseError,
+  type AdaptedResponse,
+  type ResponseAdapter,
+  type Usage,
+} from "@/lib/adapters"
+import {
+  buildBackendRequest,
+  buildEmbeddingRequest,
+  buildImageRequest,
+  buildSpeechRequest,
+  buildTranscriptionRequest,
+  getBackendProfile,
+  getProfileAdapter,
+  type BackendPayload,
+} from "@/lib/backends"
+import { buildChatHistory, type ChatMessage } from "@/lib/chat-history"
+import { readEmbeddings } from "@/lib/embeddings"
+import { classifyUpstreamResponse, UpstreamError } from "@/lib/errors"
+import { toWorkerOptions, type GenerationParams } from "@/lib/generation"
+import { readGeneratedImage } from "@/lib/image-generation"
+import { getRequiredInputs } from "@/lib/images"
+import { logger, type Logger } from "@/lib/logger"
+import { incrementCounter, meterResponseBytes, observeLatency, type MetricLabels } from "@/lib/metrics"
+import { getFallbackChain, getModelInfo } from "@/lib/model-catalog"
+import { canModelHandle } from "@/lib/models"
+import { withRetry, type RetryOptions } from "@/lib/retry"
+import { readSpeech, readTranscript } from "@/lib/speech-response"
+import { readSSE } from "@/lib/sse"
+import type { BackendTool, ToolExchangeMessage } from "@/lib/tools/types"
+import type { GeneratedImage } from "@/lib/types"
+import { toVisionPayload } from "@/lib/vision"
+
+/**
+ * Backend forwarding shared by the chat routes: pick each model's backend
+ * profile, send the request with retries and fallbacks, and read the reply
+ * back as a stream of events whatever the backend's response format.
+ */
+
+// Per-model retry policy for transient backend failures
+const MAX_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 500
+const RETRY_MAX_DELAY_MS = 4000
+// Longest Retry-After waited for within a request; a backend asking for more gets its error, and the delay, passed on
+const MAX_RETRY_AFTER_MS = 10000
+// How long to wait for the backend to start responding before giving up on an attempt
+const UPSTREAM_TIMEOUT_MS = 15000
+// Image and speech models answer only once the whole image or recording is done
+const IMAGE_TIMEOUT_MS = 25000
+const SPEECH_TIMEOUT_MS = 25000
+// Texts embedded per backend request
+const EMBEDDING_BATCH_SIZE = 50
+// Time a route gives the backends to answer, across retries, fallbacks and tool rounds; kept under the routes'
+// maxDuration of 30s so there is still time to send the reply, or the error, before the platform ends the request
+export const REQUEST_TIME_LIMIT_MS = 25000
+
+// The deadline of a request starting now, for the `deadline` of the requests below
+export function requestDeadline(): number {
+  return Date.now() + REQUEST_TIME_LIMIT_MS
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[]
+  model: string
+  params: GenerationParams
+  // Try the model's configured fallbacks when it fails
+  fallback: boolean
+  // Tools the model may call; the reply then comes back complete instead of streamed (see lib/tools/loop.ts)
+  tools?: BackendTool[]
+  // Tool calls and results of earlier rounds, sent after the conversation
+  toolMessages?: ToolExchangeMessage[]
+  // Aborted when the client goes away; cancels retries and the backend request
+  upstream: AbortController
+  // Time (in epoch ms) by which the backends must have answered, from requestDeadline; unlimited when unset
+  deadline?: number
+  // Logger carrying the request ID
+  log: Logger
+}
+
+export interface ImageRequest {
+  prompt: string
+  model: string
+  seed?: number
+  upstream: AbortController
+  deadline?: number
+  log: Logger
+}
+
+export interface TranscriptionRequest {
+  audio: Uint8Array
+  mimeType: string
+  model: string
+  upstream: AbortController
+  deadline?: number
+  log: Logger
+}
+
+export interface SpeechRequest {
+  text: string
+  model: string
+  upstream: AbortController
+  deadline?: number
+  log: Logger
+}
+
+export interface EmbeddingRequest {
+  texts: string[]
+  model: string
+  upstream: AbortController
+  deadline?: number
+  log: Logger
+}
+
+export interface CompletionResponse {
+  response: Response
+  // The model that answered, which differs from the requested one after a fallback
+  model: string
+  adapter: ResponseAdapter
+}
+
+// A reply as read from the backend, independent of how the route presents it
+export type CompletionEvent =
+  | { type: "text-delta"; textDelta: string }
+  | { type: "finish"; finishReason?: string; usage?: Usage }
+  | { type: "error"; error: string }
+
+// Helper function to send one request to a backend, turning failures into UpstreamErrors
+async function requestBackend(
+  url: string,
+  init: RequestInit,
+  {
+    upstream,
+    log,
+    labels,
+    deadline,
+    timeoutMs = UPSTREAM_TIMEOUT_MS,
+  }: { upstream: AbortController; log: Logger; labels: MetricLabels; deadline?: number; timeoutMs?: number },
+): Promise<Response> {
+  // Each attempt gets its own timeout on top of the client's cancellation, cut short by the request's deadline
+  const remainingMs = deadline === undefined ? timeoutMs : Math.min(timeoutMs, deadline - Date.now())
+  if (remainingMs <= 0) throw new UpstreamError("The backend did not answer in time", "timeout")
+  const attempt = new AbortController()
+  const abortAttempt = () => attempt.abort()
+  upstream.signal.addEventListener("abort", abortAttempt)
+  const timer = setTimeout(abortAttempt, remainingMs)
+  const startedAt = Date.now()
+  incrementCounter("chat_backend_requests_total", labels)
+
+  try {
+    const response = await fetch(url, { ...init, signal: attempt.signal })
+    observeLatency(labels, (Date.now() - startedAt) / 1000)
+    log.debug("Backend responded", {
+      status: response.status,
+      contentType: response.headers.get("content-type"),
+      latencyMs: Date.now() - startedAt,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      log.warn("Backend returned an error", { status: response.status, body: errorText })
+      throw classifyUpstreamResponse(response.status, errorText, response.headers.get("retry-after"))
+    }
+    return response
+  } catch (error) {
+    if (upstream.signal.aborted) throw error
+
+    let upstreamError: UpstreamError
+    if (error instanceof UpstreamError) {
+      upstreamError = error
+    } else if (attempt.signal.aborted) {
+      const seconds = Math.ceil(remainingMs / 1000)
+      upstreamError = new UpstreamError(`No response from the backend within ${seconds}s`, "timeout")
+    } else {
+      // Network failures (connection refused, reset, DNS) are worth another try; their details name internal hosts,
+      // so they are only logged
+      log.warn("Backend request failed to connect", { error })
+      upstreamError = new UpstreamError("Could not reach the backend", "upstream_error", { retryable: true })
+    }
+    incrementCounter("chat_backend_errors_total", { ...labels, category: upstreamError.category })
+    throw upstreamError
+  } finally {
+    clearTimeout(timer)
+    upstream.signal.removeEventListener("abort", abortAttempt)
+  }
+}
+
+// Helper function to build the retry options for one model's backend requests
+function retryPolicy(model: string, upstream: AbortController, log: Logger, deadline?: number): RetryOptions {
+  return {
+    retries: MAX_RETRIES,
+    baseDelayMs: RETRY_BASE_DELAY_MS,
+    maxDelayMs: RETRY_MAX_DELAY_MS,
+    signal: upstream.signal,
+    deadline,
+    shouldRetry: (error) => error instanceof UpstreamError && error.retryable,
+    getRetryAfter: (error) => (error instanceof UpstreamError ? error.retryAfterMs : undefined),
+    maxRetryAfterMs: MAX_RETRY_AFTER_MS,
+    onRetry: (error, attempt, delayMs) =>
+      log.warn("Retrying backend request", { model, attempt, delayMs: Math.round(delayMs), error }),
+  }
+}
+
+// Helper function to build the backend payload for one model of the fallback chain
+function buildPayload(
+  { messages, params, tools, toolMessages = [], log }: CompletionRequest,
+  model: string,
+): BackendPayload {
+  // Send the whole conversation, trimmed to the model's context window
+  const history = buildChatHistory(messages, model, params.systemPrompt)
+  if (history.messages.length === 0) {
+    history.messages.push({ role: "user", content: "Hello" })
+  }
+  log.debug("Built chat history", { messageCount: history.messages.length, droppedCount: history.droppedCount })
+
+  // Images go in whatever form the model expects
+  const imageInput = getModelInfo(model)?.imageInput
+  const payload = toVisionPayload(history.messages, imageInput)
+  return {
+    ...payload,
+    ...(payload.messages && { messages: [...payload.messages, ...toolMessages] }),
+    // Ask for token streaming; backends that cannot stream reply with plain JSON. Prompt-only models cannot, and
+    // tool calls are read from complete replies.
+    stream: imageInput !== "prompt" && !tools && toolMessages.length === 0,
+    options: toWorkerOptions(params),
+    tools,
+  }
+}
+
+/**
+ * Send a chat request to the backend of `model`, or of its fallbacks in turn
+ * when `fallback` is set, retrying transient failures with backoff. Bad
+ * requests stop immediately since another model will not help, and no
+ * further model is tried once the deadline has passed. Throws an
+ * `UpstreamError` when every model tried fails.
+ */
+export async function requestCompletion(request: CompletionRequest): Promise<CompletionResponse> {
+  const { messages, model: requestedModel, fallback, tools, upstream, deadline, log } = request
+  // Fallbacks that cannot read the conversation's images, or call tools when they are offered, are skipped
+  const requiredInputs = getRequiredInputs(messages)
+  const chain = (fallback ? getFallbackChain(requestedModel) : [requestedModel]).filter((model, index) => {
+    const info = getModelInfo(model)
+    return index === 0 || (info && canModelHandle(info, requiredInputs) && (!tools || info.tools))
+  })
+  let lastError: unknown
+  for (const model of chain) {
+    if (lastError && deadline !== undefined && Date.now() >= deadline) break
+    const profile = getBackendProfile(getModelInfo(model)?.backend)
+    const labels = { model, backend: profile.id }
+    log.info("Sending request to backend", { ...labels, kind: profile.kind })
+
+    try {
+      const { url, init } = buildBackendRequest(profile, model, buildPayload(request, model))
+      const response = await withRetry(
+        () => requestBackend(url, init, { upstream, log, labels, deadline }),
+        retryPolicy(model, upstream, log, deadline),
+      )
+      return { response: meterResponseBytes(response, labels), model, adapter: getProfileAdapter(profile, model) }
+    } catch (error) {
+      if (!(error instanceof UpstreamError) || error.category === "bad_request") throw error
+      log.warn("Model failed", { model, category: error.category })
+      lastError = error
+    }
+  }
+  throw lastError
+}
+
+/**
+ * Ask a text-to-image model for an image, retrying transient failures. There
+ * are no fallbacks, since another model would draw a different picture.
+ */
+export async function requestImage({
+  prompt,
+  model,
+  seed,
+  upstream,
+  deadline,
+  log,
+}: ImageRequest): Promise<GeneratedImage> {
+  const profile = getBackendProfile(getModelInfo(model)?.backend)
+  const labels = { model, backend: profile.id }
+  log.info("Sending image request to backend", { ...labels, kind: profile.kind })
+
+  const { url, init } = buildImageRequest(profile, model, { prompt, seed })
+  const response = await withRetry(
+    () => requestBackend(url, init, { upstream, log, labels, deadline, timeoutMs: IMAGE_TIMEOUT_MS }),
+    retryPolicy(model, upstream, log, deadline),
+  )
+  return readGeneratedImage(meterResponseBytes(response, labels), getProfileAdapter(profile, model), { prompt, seed })
+}
+
+// Transcribe a recording with a speech-to-text model, retrying transient failures
+export async function requestTranscription({
+  audio,
+  mimeType,
+  model,
+  upstream,
+  deadline,
+  log,
+}: TranscriptionRequest): Promise<string> {
+  const profile = getBackendProfile(getModelInfo(model)?.backend)
+  const labels = { model, backend: profile.id }
+  log.info("Sending transcription request to backend", { ...labels, kind: profile.kind, bytes: audio.length })
+
+  const { url, init } = buildTranscriptionRequest(profile, model, { audio, mimeType })
+  const response = await withRetry(
+    () => requestBackend(url, init, { upstream, log, labels, deadline, timeoutMs: SPEECH_TIMEOUT_MS }),
+    retryPolicy(model, upstream, log, deadline),
+  )
+  return readTranscript(meterResponseBytes(response, labels), getProfileAdapter(profile, model))
+}
+
+// Read text aloud with a text-to-speech model, retrying transient failures
+export async function requestSpeech({
+  text,
+  model,
+  upstream,
+  deadline,
+  log,
+}: SpeechRequest): Promise<{ audio: Buffer; mimeType: string }> {
+  const profile = getBackendProfile(getModelInfo(model)?.backend)
+  const labels = { model, backend: profile.id }
+  log.info("Sending speech request to backend", { ...labels, kind: profile.kind, length: text.length })
+
+  const { url, init } = buildSpeechRequest(profile, model, { text })
+  const response = await withRetry(
+    () => requestBackend(url, init, { upstream, log, labels, deadline, timeoutMs: SPEECH_TIMEOUT_MS }),
+    retryPolicy(model, upstream, log, deadline),
+  )
+  return readSpeech(meterResponseBytes(response, labels), getProfileAdapter(profile, model))
+}
+
+// Embed texts with an embedding model in batches, retrying transient failures; vectors come back in input order
+export async function requestEmbeddings({
+  texts,
+  model,
+  upstream,
+  deadline,
+  log,
+}: EmbeddingRequest): Promise<number[][]> {
+  const profile = getBackendProfile(getModelInfo(model)?.backend)
+  const labels = { model, backend: profile.id }
+  const adapter = getProfileAdapter(profile, model)
+  log.info("Sending embedding requests to backend", { ...labels, kind: profile.kind, count: texts.length })
+
+  const vectors: number[][] = []
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE)
+    const { url, init } = buildEmbeddingRequest(profile, model, { texts: batch })
+    const response = await withRetry(
+      () => requestBackend(url, init, { upstream, log, labels, deadline }),
+      retryPolicy(model, upstream, log, deadline),
+    )
+    const data = await meterResponseBytes(response, labels)
+      .json()
+      .catch(() => {
+        throw new UnsupportedResponseError("The backend did not return JSON embeddings")
+      })
+    vectors.push(...readEmbeddings(data, adapter, batch.length))
+  }
+  return vectors
+}
+
+// Helper function to detect a streamed (SSE) response from the backend
+export function isEventStream(response: Response): boolean {
+  return !!response.body && (response.headers.get("content-type") || "").includes("text/event-stream")
+}
+
+/**
+ * Read a streamed backend response as completion events. An `error` event,
+ * with a generic message, ends the stream; otherwise it ends with `finish`, carrying the last finish reason
+ * and usage the backend reported.
+ */
+export async function* readUpstreamEvents(
+  body: ReadableStream<Uint8Array>,
+  adapter: ResponseAdapter,
+  log: Logger = logger,
+): AsyncGenerator<CompletionEvent> {
+  let finishReason: string | undefined
+  let usage: Usage | undefined
+
+  for await (const data of readSSE(body)) {
+    if (data === "[DONE]") break
+
+    let event: unknown
+    try {
+      event = JSON.parse(data)
+    } catch {
+      log.warn("Failed to parse upstream event", { body: data })
+      continue
+    }
+
+    // The backend's error text may echo the prompt, so it is logged redacted and the client gets a generic message
+    const error = adapter.readError(event)
+    if (error) {
+      log.warn("Backend reported an error in the stream", { responseText: error })
+      yield { type: "error", error: new UpstreamResponseError(error).message }
+      return
+    }
+
+    const textDelta = adapter.readDelta(event)
+    if (textDelta) {
+      yield { type: "text-delta", textDelta }
+    }
+    finishReason = adapter.readFinishReason(event) ?? finishReason
+    usage = adapter.readUsage(event) ?? usage
+  }
+  yield { type: "finish", finishReason, usage }
+}
+
+// Helper function to read a complete (non-streamed) backend response
+export function readBufferedResponse(
+  responseText: string,
+  adapter: ResponseAdapter,
+  log: Logger = logger,
+): AdaptedResponse {
+  log.debug("Read complete backend response", { responseText, length: responseText.length, adapter: adapter.id })
+
+  let data: unknown
+  try {
+    data = JSON.parse(responseText)
+  } catch {
+    // Workers may answer with the generated text itself
+    log.debug("Treating response as plain text")
+    return { text: responseText }
+  }
+
+  return adaptResponse(adapter, data)
+}
+
+/**
+ * Read any backend response as completion events: streamed responses event by
+ * event, complete ones as a single text delta followed by `finish`.
+ */
+export async function* readCompletionEvents(
+  response: Response,
+  adapter: ResponseAdapter,
+  log: Logger = logger,
+): AsyncGenerator<CompletionEvent> {
+  if (isEventStream(response)) {
+    yield* readUpstreamEvents(response.body as ReadableStream<Uint8Array>, adapter, log)
+    return
+  }
+
+  const { text, finishReason, usage } = readBufferedResponse(await response.text(), adapter, log)
+  if (text) yield { type: "text-delta", textDelta: text }
+  yield { type: "finish", finishReason, usage }
+}
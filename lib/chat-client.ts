@@ -0,0 +1,283 @@
+import type { Usage } from "@/lib/adapters"
+import type { ErrorCategory } from "@/lib/errors"
+import type { GenerationParams } from "@/lib/generation"
+import { withSentImages } from "@/lib/images"
+import type { ImageInputFormat } from "@/lib/models"
+import type { ChatRequestInput } from "@/lib/schemas"
+import { readSSE } from "@/lib/sse"
+import type { ConversationSummary } from "@/lib/storage/types"
+import type {
+  Attachment,
+  Conversation,
+  GeneratedImage,
+  KnowledgeDocument,
+  KnowledgeSource,
+  Message,
+  ToolStep,
+} from "@/lib/types"
+
+export interface StreamChatOptions {
+  messages: Pick<Message, "role" | "content" | "attachments" | "images" | "image" | "error">[]
+  model: string
+  // How the model takes images (see lib/vision.ts); only the images it uses are sent
+  imageInput?: ImageInputFormat
+  params?: GenerationParams
+  // Let the server answer with the model's fallbacks when it fails (default true)
+  fallback?: boolean
+  // Answer from the knowledge base, citing the passages the server retrieves
+  knowledge?: boolean
+  // Let the model call the server's tools
+  tools?: boolean
+  signal?: AbortSignal
+  // Called with the model that is answering, which differs from `model` after a fallback
+  onModel?: (model: string) => void
+  // Called with the knowledge base passages the reply was given, before its text
+  onSources?: (sources: KnowledgeSource[]) => void
+  // Called with every tool step so far when the model calls a tool and when a tool returns
+  onToolSteps?: (steps: ToolStep[]) => void
+  // Called with the accumulated reply after every text delta
+  onText?: (content: string) => void
+}
+
+export interface StreamChatResult {
+  content: string
+  // The model that answered
+  model?: string
+  // ID of the request in the server logs
+  requestId?: string
+  finishReason?: string
+  usage?: Usage
+  // The reply of a text-to-image model
+  image?: GeneratedImage
+  sources?: KnowledgeSource[]
+  toolSteps?: ToolStep[]
+}
+
+// A failed chat request, with the category reported by the server when there is one
+export class ChatRequestError extends Error {
+  category?: ErrorCategory
+  status?: number
+  // ID of the failed request in the server logs
+  requestId?: string
+
+  constructor(message: string, category?: ErrorCategory, status?: number, requestId?: string) {
+    super(message)
+    this.name = "ChatRequestError"
+    this.category = category
+    this.status = status
+    this.requestId = requestId
+  }
+}
+
+// Helper function to turn an error response into a ChatRequestError
+async function readErrorResponse(response: Response): Promise<ChatRequestError> {
+  const errorText = await response.text()
+  const requestId = response.headers.get("X-Request-Id") || undefined
+  try {
+    const data = JSON.parse(errorText)
+    if (typeof data?.error === "string") {
+      return new ChatRequestError(data.error, data.category, response.status, requestId)
+    }
+  } catch {
+    // Not JSON; report the raw body below
+  }
+  return new ChatRequestError(`HTTP ${response.status}: ${errorText}`, undefined, response.status, requestId)
+}
+
+// The `/api/chat` request body for a conversation; failed turns are left out, only the images the model uses are
+// sent, and generated images are passed on as their prompt, so chat models know what was drawn
+export function buildChatRequest({
+  messages,
+  model,
+  imageInput,
+  params,
+  fallback,
+  knowledge,
+  tools,
+}: Pick<
+  StreamChatOptions,
+  "messages" | "model" | "imageInput" | "params" | "fallback" | "knowledge" | "tools"
+>): ChatRequestInput {
+  return {
+    messages: withSentImages(
+      messages.filter((message) => !message.error),
+      imageInput,
+    ).map(({ role, content, attachments, images, image }) =>
+      role === "user"
+        ? { role, content, ...(attachments?.length && { attachments }), ...(images?.length && { images }) }
+        : { role, content: image ? `[Generated image: ${image.prompt}]` : content },
+    ),
+    model,
+    params,
+    fallback,
+    ...(knowledge && { knowledge }),
+    ...(tools && { tools }),
+  }
+}
+
+/**
+ * Send a conversation to `/api/chat` and read the streamed reply. Throws a
+ * `ChatRequestError` on HTTP errors and on `error` events; aborting `signal`
+ * rejects with an AbortError. Failed turns in `messages` are left out.
+ */
+export async function streamChat({
+  messages,
+  model,
+  imageInput,
+  params,
+  fallback,
+  knowledge,
+  tools,
+  signal,
+  onModel,
+  onSources,
+  onToolSteps,
+  onText,
+}: StreamChatOptions): Promise<StreamChatResult> {
+  const response = await fetch("/api/chat", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(buildChatRequest({ messages, model, imageInput, params, fallback, knowledge, tools })),
+    signal,
+  })
+
+  if (!response.ok) {
+    throw await readErrorResponse(response)
+  }
+
+  if (!response.body) {
+    throw new Error("No response body reader available")
+  }
+
+  const result: StreamChatResult = { content: "" }
+
+  for await (const line of readSSE(response.body)) {
+    let data: any
+    try {
+      data = JSON.parse(line)
+    } catch (parseError) {
+      console.error("Failed to parse chunk:", parseError, "Raw line:", line)
+      continue
+    }
+
+    if (data.type === "start") {
+      result.model = data.model
+      result.requestId = data.requestId
+      if (data.model) onModel?.(data.model)
+    } else if (data.type === "sources" && Array.isArray(data.sources)) {
+      result.sources = data.sources
+      onSources?.(data.sources)
+    } else if (data.type === "tool-call" && data.toolCall) {
+      result.toolSteps = [...(result.toolSteps || []), data.toolCall]
+      onToolSteps?.(result.toolSteps)
+    } else if (data.type === "tool-result" && data.toolResult) {
+      const step: ToolStep = data.toolResult
+      result.toolSteps = (result.toolSteps || []).map((existing) => (existing.id === step.id ? step : existing))
+      onToolSteps?.(result.toolSteps)
+    } else if (data.type === "image" && data.image) {
+      result.image = data.image
+    } else if (data.type === "text-delta" && data.textDelta) {
+      result.content += data.textDelta
+      onText?.(result.content)
+    } else if (data.type === "error") {
+      const message = data.error || "The model returned an error"
+      throw new ChatRequestError(message, data.category, undefined, result.requestId)
+    } else if (data.type === "finish") {
+      result.finishReason = data.finishReason
+      result.usage = data.usage
+    }
+  }
+
+  return result
+}
+
+// Upload a file to `/api/attachments` and get back its extracted text; throws a ChatRequestError when it is rejected
+export async function uploadAttachment(file: File, signal?: AbortSignal): Promise<Attachment> {
+  const body = new FormData()
+  body.append("file", file)
+  const response = await fetch("/api/attachments", { method: "POST", body, signal })
+  if (!response.ok) throw await readErrorResponse(response)
+  const { attachment } = await response.json()
+  return attachment
+}
+
+// Send a recording to `/api/transcribe` and get back its text; throws a ChatRequestError when it fails
+export async function transcribeAudio(audio: Blob, signal?: AbortSignal): Promise<string> {
+  const body = new FormData()
+  body.append("audio", audio, "recording")
+  const response = await fetch("/api/transcribe", { method: "POST", body, signal })
+  if (!response.ok) throw await readErrorResponse(response)
+  const { text } = await response.json()
+  return text
+}
+
+// Read text aloud with the server's text-to-speech model; throws a ChatRequestError when it fails
+export async function synthesizeSpeech(text: string, signal?: AbortSignal): Promise<Blob> {
+  const response = await fetch("/api/speech", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text }),
+    signal,
+  })
+  if (!response.ok) throw await readErrorResponse(response)
+  return response.blob()
+}
+
+// The documents in the server's knowledge base, newest first
+export async function listKnowledgeDocuments(signal?: AbortSignal): Promise<KnowledgeDocument[]> {
+  const response = await fetch("/api/knowledge", { signal })
+  if (!response.ok) throw await readErrorResponse(response)
+  const { documents } = await response.json()
+  return documents
+}
+
+// Add a file to the knowledge base, named by its path within a folder when it comes from one
+export async function addKnowledgeDocument(file: File, path?: string): Promise<KnowledgeDocument> {
+  const body = new FormData()
+  body.append("file", file)
+  if (path) body.append("path", path)
+  const response = await fetch("/api/knowledge", { method: "POST", body })
+  if (!response.ok) throw await readErrorResponse(response)
+  const { document } = await response.json()
+  return document
+}
+
+export async function deleteKnowledgeDocument(id: string): Promise<void> {
+  const response = await fetch(`/api/knowledge/${encodeURIComponent(id)}`, { method: "DELETE" })
+  if (!response.ok) throw await readErrorResponse(response)
+}
+
+// The caller's conversations in the server store, without their messages
+export async function listServerConversations(): Promise<ConversationSummary[]> {
+  const response = await fetch("/api/conversations")
+  if (!response.ok) throw await readErrorResponse(response)
+  const { conversations } = await response.json()
+  return conversations
+}
+
+export async function getServerConversation(id: string): Promise<Conversation> {
+  const response = await fetch(`/api/conversations/${encodeURIComponent(id)}`)
+  if (!response.ok) throw await readErrorResponse(response)
+  const { conversation } = await response.json()
+  return conversation
+}
+
+// Save a conversation to the server store with its own timestamps, creating it there when the server lacks it
+export async function saveServerConversation({ id, createdAt, ...fields }: Conversation): Promise<void> {
+  const init = { headers: { "Content-Type": "application/json" } }
+  const url = `/api/conversations/${encodeURIComponent(id)}`
+  let response = await fetch(url, { ...init, method: "PATCH", body: JSON.stringify(fields) })
+  if (response.status === 404) {
+    const body = JSON.stringify({ id, createdAt, ...fields })
+    response = await fetch("/api/conversations", { ...init, method: "POST", body })
+  }
+  if (!response.ok) throw await readErrorResponse(response)
+}
+
+// Delete a conversation from the server store; one the server does not have counts as deleted
+export async function deleteServerConversation(id: string): Promise<void> {
+  const response = await fetch(`/api/conversations/${encodeURIComponent(id)}`, { method: "DELETE" })
+  if (!response.ok && response.status !== 404) throw await readErrorResponse(response)
+}
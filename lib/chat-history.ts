@@ -0,0 +1,108 @@
+import { withAttachments } from "@/lib/attachments"
+import { withSentImages } from "@/lib/images"
+import { getModelInfo } from "@/lib/model-catalog"
+import { DEFAULT_CONTEXT_WINDOW, estimateMessageTokens } from "@/lib/tokens"
+import type { Attachment, ImagePart } from "@/lib/types"
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+  // Images of a user message, shaped for the model by lib/vision.ts
+  images?: ImagePart[]
+}
+
+// Tokens kept free for the model's reply
+const RESPONSE_TOKEN_RESERVE = 1024
+
+// How many of the dropped user questions are quoted in the summary note
+const SUMMARY_MAX_QUESTIONS = 5
+const SUMMARY_EXCERPT_CHARS = 160
+
+export function getContextWindow(model?: string): number {
+  return getModelInfo(model)?.contextLength || DEFAULT_CONTEXT_WINDOW
+}
+
+// Helper function to describe the turns that no longer fit in the context window
+function summarizeDroppedTurns(dropped: ChatMessage[]): string {
+  const questions = dropped
+    .filter((message) => message.role === "user")
+    .slice(-SUMMARY_MAX_QUESTIONS)
+    .map((message) => {
+      const excerpt = message.content.replace(/\s+/g, " ").trim()
+      return `- ${excerpt.length > SUMMARY_EXCERPT_CHARS ? excerpt.slice(0, SUMMARY_EXCERPT_CHARS) + "…" : excerpt}`
+    })
+
+  const lines = [
+    `The ${dropped.length} oldest messages of this conversation were omitted to fit the context window.`,
+    ...(questions.length > 0 ? ["Earlier, the user asked about:", ...questions] : []),
+  ]
+
+  return lines.join("\n")
+}
+
+// Helper function to merge the system prompt and the summary note into one system message
+function systemMessage(...parts: (string | undefined)[]): ChatMessage[] {
+  const content = parts.filter((part) => part && part.trim().length > 0).join("\n\n")
+  return content ? [{ role: "system", content }] : []
+}
+
+/**
+ * Convert the client's message list into a role-tagged chat history that fits the
+ * model's context window. The newest turns are kept; when older turns have to be
+ * dropped, a short system note summarizing them takes their place. An optional
+ * system prompt always leads the history and counts against the budget, and so
+ * do attached files, which are sent as part of their message, and the images
+ * the model is sent (see withSentImages).
+ */
+export function buildChatHistory(
+  messages: { role: string; content?: string; attachments?: Attachment[]; images?: ImagePart[] }[],
+  model?: string,
+  systemPrompt?: string,
+): { messages: ChatMessage[]; droppedCount: number } {
+  const turns: ChatMessage[] = messages
+    .filter((message) => message.role === "user" || message.role === "assistant")
+    .map((message) => ({
+      role: message.role as ChatMessage["role"],
+      content: withAttachments(message),
+      ...(message.images?.length && { images: message.images }),
+    }))
+  // Only the images the model is sent count against its context window
+  const history = withSentImages(turns, getModelInfo(model)?.imageInput).filter(
+    (message) => message.content.trim().length > 0 || message.images,
+  )
+
+  const systemTokens = systemPrompt ? estimateMessageTokens(systemPrompt) : 0
+  const budget = getContextWindow(model) - RESPONSE_TOKEN_RESERVE - systemTokens
+
+  // Walk backwards from the newest message, always keeping the latest one
+  let used = 0
+  let firstKept = history.length
+  while (firstKept > 0) {
+    const cost = estimateMessageTokens(history[firstKept - 1].content, history[firstKept - 1].images?.length)
+    if (firstKept < history.length && used + cost > budget) break
+    used += cost
+    firstKept--
+  }
+
+  // Make sure the kept history opens with a user turn
+  while (firstKept < history.length - 1 && history[firstKept].role !== "user") {
+    firstKept++
+  }
+
+  const kept = history.slice(firstKept)
+  const dropped = history.slice(0, firstKept)
+  if (dropped.length === 0) {
+    return { messages: [...systemMessage(systemPrompt), ...kept], droppedCount: 0 }
+  }
+
+  // Make room for the summary note by dropping more turns if necessary
+  let summary = summarizeDroppedTurns(dropped)
+  while (kept.length > 1 && used + estimateMessageTokens(summary) > budget) {
+    const removed = kept.splice(0, kept[1]?.role === "assistant" ? 2 : 1)
+    removed.forEach((message) => (used -= estimateMessageTokens(message.content, message.images?.length)))
+    dropped.push(...removed)
+    summary = summarizeDroppedTurns(dropped)
+  }
+
+  return { messages: [...systemMessage(systemPrompt, summary), ...kept], droppedCount: dropped.length }
+}
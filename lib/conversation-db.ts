@@ -0,0 +1,81 @@
+import type { Conversation } from "@/lib/types"
+
+// Browser-local conversation history, stored in IndexedDB
+const DB_NAME = "cloudflare-ai-chat"
+const DB_VERSION = 2
+const STORE_NAME = "conversations"
+// Ids of the conversations the server store has had, so ones deleted there are not uploaded again
+const SYNCED_STORE_NAME = "synced"
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const database = request.result
+        if (!database.objectStoreNames.contains(STORE_NAME)) {
+          const store = database.createObjectStore(STORE_NAME, { keyPath: "id" })
+          store.createIndex("updatedAt", "updatedAt")
+        }
+        if (!database.objectStoreNames.contains(SYNCED_STORE_NAME)) {
+          database.createObjectStore(SYNCED_STORE_NAME, { keyPath: "id" })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        databasePromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return databasePromise
+}
+
+// Helper function to run a single request against the conversations store, or another store of the database
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = STORE_NAME,
+): Promise<T> {
+  const database = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode)
+    const request = run(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export async function listConversations(): Promise<Conversation[]> {
+  const conversations = await withStore<Conversation[]>("readonly", (store) => store.getAll())
+  return conversations.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function getConversation(id: string): Promise<Conversation | undefined> {
+  return withStore<Conversation | undefined>("readonly", (store) => store.get(id))
+}
+
+export async function saveConversation(conversation: Conversation): Promise<void> {
+  await withStore("readwrite", (store) => store.put(conversation))
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id))
+}
+
+// The ids of the conversations the server store has had
+export async function listSyncedIds(): Promise<Set<string>> {
+  const keys = await withStore<IDBValidKey[]>("readonly", (store) => store.getAllKeys(), SYNCED_STORE_NAME)
+  return new Set(keys.map(String))
+}
+
+export async function markSynced(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.put({ id }), SYNCED_STORE_NAME)
+}
+
+export async function unmarkSynced(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id), SYNCED_STORE_NAME)
+}
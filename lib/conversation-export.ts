@@ -0,0 +1,194 @@
+import { formatFileSize } from "@/lib/attachments"
+import { describeGenerationParams } from "@/lib/generation"
+import { getDefaultLeaf, getThread, normalizeTree } from "@/lib/message-tree"
+import {
+  CONVERSATION_EXPORT_FORMAT,
+  CONVERSATION_EXPORT_VERSION,
+  conversationExportSchema,
+  type ConversationExport,
+} from "@/lib/schemas"
+import { formatTokens } from "@/lib/tokens"
+import { describeToolArguments, getToolLabel } from "@/lib/tools/labels"
+import type { Conversation, GeneratedImage, Message, ToolStep } from "@/lib/types"
+
+/**
+ * Conversation export and import. JSON is lossless: every branch, model,
+ * parameter, token count and timestamp, and it is the format that can be
+ * imported again. Markdown and HTML are for reading and contain only the
+ * branch being shown.
+ */
+
+export type ExportFormat = "markdown" | "json" | "html"
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  json: { extension: "json", mimeType: "application/json" },
+  html: { extension: "html", mimeType: "text/html" },
+}
+
+// The conversation fields that describe it independently of where it is stored
+type ExportedConversation = ConversationExport["conversation"]
+
+export function toConversationExport(conversation: Conversation): ConversationExport {
+  return {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    conversation: {
+      title: conversation.title,
+      pinned: conversation.pinned,
+      model: conversation.model,
+      params: conversation.params,
+      // Streaming state only matters while the page is open
+      messages: conversation.messages.map(({ isStreaming, ...message }) => message),
+      currentLeafId: conversation.currentLeafId,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+    },
+  }
+}
+
+export function exportConversationJson(conversation: Conversation): string {
+  return JSON.stringify(toConversationExport(conversation), null, 2)
+}
+
+/**
+ * Read an exported JSON file. Throws an Error describing the first problem
+ * when the file is not a valid export.
+ */
+export function parseConversationExport(text: string): ExportedConversation {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+
+  const result = conversationExportSchema.safeParse(data)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const path = issue.path.join(".")
+    throw new Error(path && !["format", "version"].includes(path) ? `${path}: ${issue.message}` : issue.message)
+  }
+
+  const { conversation } = result.data
+  const messages = normalizeTree(conversation.messages)
+  const ids = new Set(messages.map((message) => message.id))
+  if (ids.size !== messages.length) throw new Error("The conversation has duplicate message ids")
+
+  // Fall back to the latest branch when the exported leaf is missing
+  const currentLeafId =
+    conversation.currentLeafId && ids.has(conversation.currentLeafId)
+      ? conversation.currentLeafId
+      : getDefaultLeaf(messages)
+  return { ...conversation, messages, currentLeafId }
+}
+
+// The messages of the branch that was being shown
+export function getExportedThread(conversation: Pick<Conversation, "messages" | "currentLeafId">): Message[] {
+  const messages = normalizeTree(conversation.messages)
+  return getThread(messages, conversation.currentLeafId ?? getDefaultLeaf(messages))
+}
+
+// One-line description of how a reply was produced, e.g. "Llama 3.1 8B · temperature 0.7 · 152 tokens"
+export function describeReply(message: Message, getModelName: (modelId: string) => string): string {
+  const parts = [
+    message.model && getModelName(message.model),
+    message.fallbackFrom && `fallback for ${getModelName(message.fallbackFrom)}`,
+    message.params && describeGenerationParams(message.params),
+    message.usage && `${message.usage.estimated ? "~" : ""}${formatTokens(message.usage.completionTokens)} tokens`,
+    message.stopped && "stopped",
+  ]
+  return parts.filter(Boolean).join(" · ")
+}
+
+// The files attached to a message, e.g. "notes.md (2 KB), data.csv (14 KB)"
+export function describeAttachments(message: Message): string {
+  return (message.attachments || [])
+    .map((attachment) => `${attachment.name} (${formatFileSize(attachment.size)})`)
+    .join(", ")
+}
+
+// The size and seed of a generated image, e.g. "1024×1024 · seed 42"
+export function describeGeneratedImage(image: GeneratedImage): string {
+  const parts = [
+    image.width && image.height && `${image.width}×${image.height}`,
+    image.seed !== undefined && `seed ${image.seed}`,
+  ]
+  return parts.filter(Boolean).join(" · ")
+}
+
+// Helper function to describe a tool call as a list item, e.g. "- Calculator (`2^10`): 2^10 = 1024"
+function describeToolStep(step: ToolStep): string {
+  const outcome = step.error !== undefined ? `failed: ${step.error}` : (step.result || "").replace(/\s+/g, " ")
+  const summary = outcome.length > 200 ? `${outcome.slice(0, 200)}…` : outcome
+  return `- ${getToolLabel(step.name)} (\`${describeToolArguments(step.arguments)}\`): ${summary}`
+}
+
+// Helper function to format a timestamp for export headers
+export function formatExportDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+}
+
+// The branch being shown as Markdown, with a header per message and the model that wrote each reply
+export function exportConversationMarkdown(
+  conversation: Conversation,
+  getModelName: (modelId: string) => string = (modelId) => modelId,
+): string {
+  const lines = [`# ${conversation.title}`, "", `_Exported ${formatExportDate(Date.now())}_`, ""]
+
+  if (conversation.params?.systemPrompt) {
+    const quoted = conversation.params.systemPrompt.split("\n").map((line) => `> ${line}`)
+    lines.push("## System prompt", "", ...quoted, "")
+  }
+
+  for (const message of getExportedThread(conversation)) {
+    lines.push("---", "")
+    if (message.role === "user") {
+      lines.push("## User", "")
+      for (const image of message.images || []) lines.push(`![${image.name || "image"}](${image.dataUrl})`, "")
+      if (message.content) lines.push(message.content, "")
+      if (message.attachments?.length) lines.push(`_Attached: ${describeAttachments(message)}_`, "")
+      continue
+    }
+
+    lines.push("## Assistant", "")
+    const annotation = describeReply(message, getModelName)
+    if (annotation) lines.push(`_${annotation}_`, "")
+    if (message.image) {
+      const details = describeGeneratedImage(message.image)
+      lines.push(`![${message.image.prompt}](${message.image.dataUrl})`, "")
+      if (details) lines.push(`_${details}_`, "")
+      continue
+    }
+    if (message.toolSteps?.length) {
+      lines.push("Tool steps:", "", ...message.toolSteps.map(describeToolStep), "")
+    }
+    lines.push(message.error ? `> **Error:** ${message.error.message}` : message.content, "")
+    if (message.sources?.length) {
+      lines.push("Sources:", "", ...message.sources.map((source) => `${source.index}. ${source.documentName}`), "")
+    }
+  }
+
+  return lines.join("\n")
+}
+
+// File name for an export, from the conversation title
+export function exportFileName(conversation: Pick<Conversation, "title">, format: ExportFormat): string {
+  const base = conversation.title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+  return `${base || "conversation"}.${EXPORT_FILE_TYPES[format].extension}`
+}
+
+// Save text as a file through the browser's download prompt
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,32 @@
+import { UnsupportedResponseError, UpstreamResponseError, type ResponseAdapter } from "@/lib/adapters"
+
+/**
+ * Reading embedding responses. Workers AI answers `{ result: { shape, data } }`
+ * with one vector per input in `data`; OpenAI-style servers answer
+ * `{ data: [{ embedding, index }] }`.
+ */
+
+// Helper function to check that a value is a vector of numbers
+function isVector(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === "number")
+}
+
+/**
+ * Read the vectors of an embedding response, in input order. Throws
+ * `UpstreamResponseError` for error payloads and `UnsupportedResponseError`
+ * when the response does not hold one vector per input.
+ */
+export function readEmbeddings(data: any, adapter: ResponseAdapter, count: number): number[][] {
+  const error = adapter.readError(data)
+  if (error) throw new UpstreamResponseError(error)
+
+  const items: unknown[] = data?.result?.data ?? data?.data ?? []
+  const vectors = items.every((item: any) => isVector(item?.embedding))
+    ? [...items].sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0)).map((item: any) => item.embedding)
+    : items
+
+  if (vectors.length !== count || !vectors.every(isVector)) {
+    throw new UnsupportedResponseError(`Expected ${count} embeddings from the backend, got ${vectors.length}`)
+  }
+  return vectors
+}
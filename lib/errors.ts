@@ -0,0 +1,103 @@
+/**
+ * Categories of chat failures. The route reports one with every error response
+ * so the client can explain what went wrong, and the retry and fallback logic
+ * uses them to decide what to try next.
+ */
+export const ERROR_CATEGORIES = [
+  "rate_limited",
+  "model_unavailable",
+  "timeout",
+  "bad_request",
+  "upstream_error",
+] as const
+
+export type ErrorCategory = (typeof ERROR_CATEGORIES)[number]
+
+export const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  rate_limited: "Rate limited",
+  model_unavailable: "Model unavailable",
+  timeout: "Timed out",
+  bad_request: "Bad request",
+  upstream_error: "Backend error",
+}
+
+// Status the chat route answers with for each category
+export const ERROR_CATEGORY_STATUS: Record<ErrorCategory, number> = {
+  rate_limited: 429,
+  model_unavailable: 503,
+  timeout: 504,
+  bad_request: 400,
+  upstream_error: 502,
+}
+
+// Raised when a backend request fails; `retryable` marks failures worth trying again
+export class UpstreamError extends Error {
+  category: ErrorCategory
+  status?: number
+  retryable: boolean
+  // Delay the backend asked for before the next attempt
+  retryAfterMs?: number
+
+  constructor(
+    message: string,
+    category: ErrorCategory,
+    options: { status?: number; retryable?: boolean; retryAfterMs?: number } = {},
+  ) {
+    super(message)
+    this.name = "UpstreamError"
+    this.category = category
+    this.status = options.status
+    this.retryable = options.retryable ?? (category === "rate_limited" || category === "timeout")
+    this.retryAfterMs = options.retryAfterMs
+  }
+}
+
+// Helper function to read a Retry-After header (seconds or an HTTP date) as milliseconds
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+const MODEL_UNAVAILABLE_PATTERN = /model.*(not found|unavailable|does not exist|not supported)|no such model|capacity/i
+
+/**
+ * Classify a non-OK backend response. Server errors and timeouts are retried;
+ * a model the backend cannot serve moves on to the next fallback instead. A
+ * 503 usually means the model is only briefly overloaded, so it is retried
+ * before falling back.
+ *
+ * The body is only used to classify the response. Backends may echo the
+ * prompt in their errors, and error messages are logged and returned to
+ * clients without redaction, so the message only names the status; the
+ * caller logs the body as a redacted field.
+ */
+export function classifyUpstreamResponse(status: number, body: string, retryAfter: string | null): UpstreamError {
+  const retryAfterMs = parseRetryAfter(retryAfter)
+
+  if (status === 429) {
+    return new UpstreamError(`The backend is rate limiting requests (HTTP ${status})`, "rate_limited", {
+      status,
+      retryAfterMs,
+    })
+  }
+  if (status === 408 || status === 504 || status === 524) {
+    return new UpstreamError(`The backend timed out (HTTP ${status})`, "timeout", { status })
+  }
+  if (status === 404 || status === 503 || MODEL_UNAVAILABLE_PATTERN.test(body)) {
+    return new UpstreamError(`The model is unavailable (HTTP ${status})`, "model_unavailable", {
+      status,
+      retryable: status === 503,
+      retryAfterMs,
+    })
+  }
+  if (status === 400 || status === 413 || status === 422) {
+    return new UpstreamError(`The backend rejected the request (HTTP ${status})`, "bad_request", { status })
+  }
+  return new UpstreamError(`The backend failed (HTTP ${status})`, "upstream_error", {
+    status,
+    retryable: status >= 500,
+  })
+}
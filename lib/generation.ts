@@ -0,0 +1,113 @@
+import type { ModelInfo } from "@/lib/models"
+
+/**
+ * Generation settings a user can pick per conversation. Unset fields fall back
+ * to the model's own defaults on Workers AI.
+ */
+export interface GenerationParams {
+  systemPrompt?: string
+  temperature?: number
+  maxTokens?: number
+  topP?: number
+  topK?: number
+  repetitionPenalty?: number
+  seed?: number
+}
+
+export type NumericParam = Exclude<keyof GenerationParams, "systemPrompt">
+
+interface ParamRange {
+  min: number
+  max: number
+  step: number
+  integer?: boolean
+}
+
+export const SYSTEM_PROMPT_MAX_CHARS = 4000
+
+// Ranges accepted by the Workers AI text-generation models (max tokens is capped per model)
+const DEFAULT_RANGES: Record<NumericParam, ParamRange> = {
+  temperature: { min: 0, max: 5, step: 0.1 },
+  maxTokens: { min: 1, max: 2048, step: 1, integer: true },
+  topP: { min: 0.001, max: 1, step: 0.05 },
+  topK: { min: 1, max: 50, step: 1, integer: true },
+  repetitionPenalty: { min: 0, max: 2, step: 0.1 },
+  seed: { min: 1, max: 9999999999, step: 1, integer: true },
+}
+
+export const PARAM_LABELS: Record<NumericParam, string> = {
+  temperature: "Temperature",
+  maxTokens: "Max tokens",
+  topP: "Top P",
+  topK: "Top K",
+  repetitionPenalty: "Repetition penalty",
+  seed: "Seed",
+}
+
+// Parameter ranges for a model; parameters the model does not support are omitted
+export function getParamRanges(model?: ModelInfo): Partial<Record<NumericParam, ParamRange>> {
+  const ranges: Partial<Record<NumericParam, ParamRange>> = {}
+
+  for (const [name, range] of Object.entries(DEFAULT_RANGES) as [NumericParam, ParamRange][]) {
+    if (model?.unsupportedParams?.includes(name)) continue
+    ranges[name] = name === "maxTokens" && model?.maxOutputTokens ? { ...range, max: model.maxOutputTokens } : range
+  }
+  return ranges
+}
+
+/**
+ * Check generation parameters against the model's ranges. Returns one message
+ * per invalid field, keyed by parameter name; an empty object means valid.
+ */
+export function validateGenerationParams(params: GenerationParams, model?: ModelInfo): Record<string, string> {
+  const errors: Record<string, string> = {}
+  const ranges = getParamRanges(model)
+
+  if (params.systemPrompt !== undefined && typeof params.systemPrompt !== "string") {
+    errors.systemPrompt = "System prompt must be text"
+  } else if ((params.systemPrompt?.length || 0) > SYSTEM_PROMPT_MAX_CHARS) {
+    errors.systemPrompt = `System prompt must be at most ${SYSTEM_PROMPT_MAX_CHARS} characters`
+  }
+
+  for (const name of Object.keys(DEFAULT_RANGES) as NumericParam[]) {
+    const value = params[name]
+    if (value === undefined) continue
+
+    const range = ranges[name]
+    if (!range) {
+      errors[name] = `${PARAM_LABELS[name]} is not supported by this model`
+    } else if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors[name] = `${PARAM_LABELS[name]} must be a number`
+    } else if (range.integer && !Number.isInteger(value)) {
+      errors[name] = `${PARAM_LABELS[name]} must be a whole number`
+    } else if (value < range.min || value > range.max) {
+      errors[name] = `${PARAM_LABELS[name]} must be between ${range.min} and ${range.max}`
+    }
+  }
+
+  return errors
+}
+
+// Map generation parameters to the snake_case options Workers AI expects
+export function toWorkerOptions(params: GenerationParams): Record<string, number> {
+  const options: Record<string, number | undefined> = {
+    temperature: params.temperature,
+    max_tokens: params.maxTokens,
+    top_p: params.topP,
+    top_k: params.topK,
+    repetition_penalty: params.repetitionPenalty,
+    seed: params.seed,
+  }
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Record<
+    string,
+    number
+  >
+}
+
+// Short human-readable summary, e.g. "temperature 0.7 · max tokens 512 · seed 42"
+export function describeGenerationParams(params: GenerationParams): string {
+  return (Object.keys(PARAM_LABELS) as NumericParam[])
+    .filter((name) => params[name] !== undefined)
+    .map((name) => `${PARAM_LABELS[name].toLowerCase()} ${params[name]}`)
+    .join(" · ")
+}
@@ -0,0 +1,151 @@
+import type { ZodType, ZodTypeDef } from "zod"
+
+import { UnsupportedResponseError, UpstreamResponseError } from "@/lib/adapters"
+import { formatFileSize } from "@/lib/attachments"
+import { BackendConfigError } from "@/lib/backends"
+import { ERROR_CATEGORY_STATUS, UpstreamError, type ErrorCategory } from "@/lib/errors"
+import type { Logger } from "@/lib/logger"
+
+// Helper function to build a JSON response
+export function jsonResponse(body: unknown, status = 200, headers: HeadersInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  })
+}
+
+// Helper function to build a JSON error response in the `{ error }` shape the client expects
+export function errorResponse(status: number, error: string, details?: unknown): Response {
+  return jsonResponse(details === undefined ? { error } : { error, details }, status)
+}
+
+// Largest JSON body parseJsonBody reads unless the route allows more
+export const MAX_JSON_BODY_BYTES = 1024 * 1024
+
+/**
+ * Read a request body of at most `maxBytes`. A larger Content-Length is
+ * rejected before anything is read, and reading stops as soon as more bytes
+ * arrive than allowed, so an oversized body is never held in memory. Returns
+ * null when the body is too large.
+ */
+export async function readLimitedBody(req: Request, maxBytes: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (Number(req.headers.get("content-length")) > maxBytes) return null
+  if (!req.body) return new Uint8Array()
+
+  const reader = req.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.length
+    if (size > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+// Room for the multipart boundaries, part headers and small text fields around an uploaded file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024
+
+/**
+ * Read a multipart form upload whose file is at most `maxFileBytes`. The body
+ * is bounded with readLimitedBody before it is parsed, so an oversized upload
+ * is rejected without being read into memory. Returns either the form or a
+ * ready-made error response: 413 for a body that is too large, 400 for one
+ * that is not multipart form data.
+ */
+export async function parseFormBody(
+  req: Request,
+  maxFileBytes: number,
+): Promise<{ form: FormData; error?: undefined } | { form?: undefined; error: Response }> {
+  try {
+    const bytes = await readLimitedBody(req, maxFileBytes + MULTIPART_OVERHEAD_BYTES)
+    if (!bytes) return { error: errorResponse(413, `Uploads must be at most ${formatFileSize(maxFileBytes)}`) }
+    const body = new Response(bytes, { headers: { "Content-Type": req.headers.get("content-type") || "" } })
+    return { form: await body.formData() }
+  } catch {
+    return { error: errorResponse(400, "Request body must be multipart form data") }
+  }
+}
+
+/**
+ * Read and validate a JSON request body of at most `maxBytes`. Returns either
+ * the parsed data or a ready-made error response: 413 for a body that is too
+ * large, 400 listing each invalid field otherwise.
+ */
+export async function parseJsonBody<T>(
+  req: Request,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  { maxBytes = MAX_JSON_BODY_BYTES }: { maxBytes?: number } = {},
+): Promise<{ data: T; error?: undefined } | { data?: undefined; error: Response }> {
+  let body: unknown
+  try {
+    const bytes = await readLimitedBody(req, maxBytes)
+    if (!bytes) return { error: errorResponse(413, `Request body must be at most ${formatFileSize(maxBytes)}`) }
+    body = JSON.parse(new TextDecoder().decode(bytes))
+  } catch {
+    return { error: errorResponse(400, "Request body must be valid JSON") }
+  }
+
+  const result = schema.safeParse(body)
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+    return { error: errorResponse(400, "Invalid request body", details) }
+  }
+  return { data: result.data }
+}
+
+// What to tell the client about a failed backend call
+export interface BackendErrorDetails {
+  status: number
+  message: string
+  // Set for errors the backend reported, so the client can explain them
+  category?: ErrorCategory
+  headers: Record<string, string>
+}
+
+/**
+ * Log a failed backend call and describe it for the client, or return
+ * undefined for errors that are not about the backend. Routes that answer in
+ * their own error shape build their responses from this; the others use
+ * backendErrorResponse.
+ */
+export function describeBackendError(error: unknown, log: Logger): BackendErrorDetails | undefined {
+  if (error instanceof UpstreamError) {
+    log.error("Backend request failed", { category: error.category, error })
+    const headers: Record<string, string> = {}
+    if (error.retryAfterMs !== undefined) headers["Retry-After"] = String(Math.ceil(error.retryAfterMs / 1000))
+    return { status: ERROR_CATEGORY_STATUS[error.category], message: error.message, category: error.category, headers }
+  }
+
+  if (error instanceof UpstreamResponseError || error instanceof UnsupportedResponseError) {
+    const responseText = error instanceof UpstreamResponseError ? error.responseText : undefined
+    log.error("Backend response rejected", { error, responseText })
+    return { status: 502, message: error.message, category: "upstream_error", headers: {} }
+  }
+
+  if (error instanceof BackendConfigError) {
+    log.error("Backend configuration error", { error })
+    return { status: 500, message: error.message, headers: {} }
+  }
+
+  return undefined
+}
+
+/**
+ * The error response for a failed backend call, with the `category` the
+ * client uses to explain it, or undefined for errors that are not about the
+ * backend.
+ */
+export function backendErrorResponse(error: unknown, log: Logger): Response | undefined {
+  const details = describeBackendError(error, log)
+  if (!details) return undefined
+
+  const { status, message, category, headers } = details
+  if (!category) return jsonResponse({ error: message }, status, headers)
+  return jsonResponse({ error: `Backend error: ${message}`, category }, status, headers)
+}
@@ -0,0 +1,93 @@
+import { UnsupportedResponseError, UpstreamResponseError, type ResponseAdapter } from "@/lib/adapters"
+import type { GeneratedImage } from "@/lib/types"
+
+/**
+ * Reading text-to-image responses. Backends answer in one of three ways: the
+ * raw image bytes (Stable Diffusion on Workers AI), JSON with a base64 image
+ * (`{ result: { image } }` from Flux, `{ data: [{ b64_json }] }` from OpenAI-style
+ * servers), or a JSON error. The bytes are sniffed rather than trusting the
+ * content type, since some backends send images as application/octet-stream.
+ */
+
+// Largest seed the image models accept
+export const MAX_IMAGE_SEED = 2147483647
+
+// Helper function to recognize an image format from its first bytes
+function sniffImageType(bytes: Buffer): string | undefined {
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png"
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg"
+  if (bytes.subarray(0, 4).toString("latin1") === "RIFF" && bytes.subarray(8, 12).toString("latin1") === "WEBP") {
+    return "image/webp"
+  }
+  if (bytes.subarray(0, 4).toString("latin1") === "GIF8") return "image/gif"
+  return undefined
+}
+
+// Helper function to read the pixel size of a PNG, GIF or JPEG image
+function readImageSize(bytes: Buffer, mimeType: string): { width?: number; height?: number } {
+  if (mimeType === "image/png" && bytes.length >= 24) {
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) }
+  }
+  if (mimeType === "image/gif" && bytes.length >= 10) {
+    return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) }
+  }
+  if (mimeType === "image/jpeg") {
+    // Walk the JPEG segments to the start-of-frame marker, which holds the size
+    let offset = 2
+    while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1]
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)
+      if (isFrame) return { height: bytes.readUInt16BE(offset + 5), width: bytes.readUInt16BE(offset + 7) }
+      offset += 2 + bytes.readUInt16BE(offset + 2)
+    }
+  }
+  return {}
+}
+
+// Helper function to find the base64 image in a JSON response
+function findBase64Image(data: any): string | undefined {
+  const candidates = [data?.result?.image, data?.image, data?.data?.[0]?.b64_json]
+  const value = candidates.find((candidate) => typeof candidate === "string" && candidate.length > 0)
+  // Some backends answer with a data URL rather than bare base64
+  return value?.replace(/^data:[^;]+;base64,/, "")
+}
+
+/**
+ * Read a text-to-image response into a GeneratedImage. Throws
+ * `UpstreamResponseError` for error payloads and `UnsupportedResponseError`
+ * when the response holds no recognizable image.
+ */
+export async function readGeneratedImage(
+  response: Response,
+  adapter: ResponseAdapter,
+  { prompt, seed }: { prompt: string; seed?: number },
+): Promise<GeneratedImage> {
+  let bytes = Buffer.from(await response.arrayBuffer())
+  let mimeType = sniffImageType(bytes)
+
+  if (!mimeType) {
+    let data: unknown
+    try {
+      data = JSON.parse(bytes.toString("utf8"))
+    } catch {
+      const contentType = response.headers.get("content-type") || "unknown content type"
+      throw new UnsupportedResponseError(`The backend did not return an image (${contentType})`)
+    }
+
+    const error = adapter.readError(data)
+    if (error) throw new UpstreamResponseError(error)
+
+    const base64 = findBase64Image(data)
+    bytes = Buffer.from(base64 || "", "base64")
+    mimeType = sniffImageType(bytes)
+    if (!mimeType) throw new UnsupportedResponseError("The backend response did not contain an image")
+  }
+
+  return {
+    dataUrl: `data:${mimeType};base64,${bytes.toString("base64")}`,
+    mimeType,
+    prompt,
+    ...(seed !== undefined && { seed }),
+    ...readImageSize(bytes, mimeType),
+  }
+}
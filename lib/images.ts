@@ -0,0 +1,93 @@
+import type { ImageInputFormat, ModelInput } from "@/lib/models"
+import type { ImagePart } from "@/lib/types"
+
+/**
+ * Images in user messages, for vision models. The browser scales each image
+ * down and stores it inline as a data URL, so conversations keep their images
+ * across reloads and exports. How they reach a model depends on its
+ * `imageInput` format (see lib/vision.ts).
+ */
+
+export const IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"] as const
+export const MAX_IMAGES_PER_MESSAGE = 4
+// Longest side of an image after scaling; vision models downsample larger images anyway
+export const MAX_IMAGE_DIMENSION = 1024
+// Largest data URL accepted for one image (about 1.5 MB of image data)
+export const MAX_IMAGE_DATA_URL_CHARS = 2 * 1024 * 1024
+// Most images sent with one request to a model that reads every image; older ones are left out
+export const MAX_IMAGES_PER_REQUEST = 8
+
+const DATA_URL_PATTERN = /^data:(image\/[\w.+-]+);base64,([A-Za-z0-9+/=]+)$/
+
+// Split a base64 data URL into its MIME type and data
+export function parseDataUrl(dataUrl: string): { mimeType: string; base64: string } | undefined {
+  const match = DATA_URL_PATTERN.exec(dataUrl)
+  return match ? { mimeType: match[1], base64: match[2] } : undefined
+}
+
+// The input types a model needs to continue a conversation (see canModelHandle)
+export function getRequiredInputs(messages: { role: string; images?: ImagePart[] }[]): ModelInput[] {
+  return messages.some((message) => message.images?.length) ? ["text", "image"] : ["text"]
+}
+
+/**
+ * The messages with only the images a model in `format` is sent: the latest
+ * MAX_IMAGES_PER_REQUEST for content parts, and only the very latest for
+ * formats that take a single image. Messages left with neither text nor
+ * images say "[Image]" instead, so the turn is not lost.
+ */
+export function withSentImages<T extends { content: string; images?: ImagePart[] }>(
+  messages: T[],
+  format: ImageInputFormat = "content-parts",
+): T[] {
+  let remaining = format === "content-parts" ? MAX_IMAGES_PER_REQUEST : 1
+  return messages
+    .slice()
+    .reverse()
+    .map((message) => {
+      if (!message.images?.length) return message
+      const images = remaining > 0 ? message.images.slice(-remaining) : []
+      remaining -= images.length
+      if (images.length === message.images.length) return message
+      const content = message.content.trim() || images.length ? message.content : "[Image]"
+      return { ...message, content, images: images.length ? images : undefined }
+    })
+    .reverse()
+}
+
+// Helper function to load an image file into an element that can be drawn on a canvas
+function loadImage(file: File): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file)
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error(`${file.name} could not be read as an image`))
+    image.src = url
+  }).finally(() => URL.revokeObjectURL(url))
+}
+
+/**
+ * Read an image file in the browser, scaled to fit MAX_IMAGE_DIMENSION.
+ * PNG and GIF images stay PNG to keep transparency; others become JPEG.
+ * Throws an Error describing the problem for unsupported or oversized files.
+ */
+export async function readImageFile(file: File): Promise<ImagePart> {
+  if (!(IMAGE_MIME_TYPES as readonly string[]).includes(file.type)) {
+    throw new Error(`${file.name || "The file"} is not a PNG, JPEG, WebP or GIF image`)
+  }
+
+  const image = await loadImage(file)
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale))
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale))
+  canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+  const mimeType = file.type === "image/png" || file.type === "image/gif" ? "image/png" : "image/jpeg"
+  const dataUrl = canvas.toDataURL(mimeType, 0.85)
+  if (dataUrl.length > MAX_IMAGE_DATA_URL_CHARS) {
+    throw new Error(`${file.name || "The image"} is too large, even after scaling it down`)
+  }
+
+  return { type: "image", id: crypto.randomUUID(), mimeType, dataUrl, ...(file.name && { name: file.name }) }
+}
@@ -0,0 +1,57 @@
+// Target chunk length in characters (about 250 tokens, well within the embedding model's 512)
+export const CHUNK_CHARS = 1000
+// Characters of the end of each chunk repeated at the start of the next, so passages keep their context
+export const CHUNK_OVERLAP_CHARS = 150
+
+// Helper function to split text that is too long for one chunk at sentence ends, or anywhere as a last resort
+function splitLongText(text: string, size: number): string[] {
+  const pieces: string[] = []
+  let current = ""
+  for (const sentence of text.match(/[^.!?\n]+[.!?]*\s*|\n+/g) || [text]) {
+    if (current && current.length + sentence.length > size) {
+      pieces.push(current)
+      current = ""
+    }
+    current += sentence
+    while (current.length > size) {
+      pieces.push(current.slice(0, size))
+      current = current.slice(size)
+    }
+  }
+  if (current.trim()) pieces.push(current)
+  return pieces
+}
+
+// Helper function to take the end of a chunk, starting at a word boundary
+function overlapOf(chunk: string, overlap: number): string {
+  if (overlap <= 0 || chunk.length <= overlap) return ""
+  const tail = chunk.slice(-overlap)
+  const wordStart = tail.search(/\s\S/)
+  return wordStart >= 0 ? tail.slice(wordStart + 1) : tail
+}
+
+/**
+ * Split a document into chunks of about `size` characters for embedding.
+ * Paragraphs are kept together where they fit, and each chunk starts with the
+ * last `overlap` characters of the one before.
+ */
+export function chunkText(text: string, size = CHUNK_CHARS, overlap = CHUNK_OVERLAP_CHARS): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => (paragraph.length > size ? splitLongText(paragraph, size) : [paragraph]))
+
+  const chunks: string[] = []
+  let current = ""
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > size) {
+      chunks.push(current.trim())
+      const carried = overlapOf(current, overlap)
+      current = carried ? `${carried}\n\n` : ""
+    }
+    current += `${paragraph}\n\n`
+  }
+  if (current.trim()) chunks.push(current.trim())
+  return chunks
+}
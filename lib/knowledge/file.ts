@@ -0,0 +1,85 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+import { compareDocuments, rankChunks, type KnowledgeStore, type StoredDocument } from "@/lib/knowledge/types"
+
+// Document ids double as file names
+const DOCUMENT_ID_PATTERN = /^[\w-]{1,100}$/
+
+/**
+ * File-based knowledge store for self-hosting: one JSON file per document,
+ * holding its chunks and their vectors, in `directory`. Every document is
+ * loaded into memory on first use so searches do not touch the disk; writes
+ * go through a temporary file and a rename like the conversation file store.
+ */
+export function createFileKnowledgeStore(directory: string): KnowledgeStore {
+  // Serialize mutations so concurrent uploads and deletes cannot interleave
+  let queue: Promise<unknown> = Promise.resolve()
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task)
+    queue = result.catch(() => undefined)
+    return result
+  }
+
+  const filePath = (id: string) => path.join(directory, `${id}.json`)
+
+  let loading: Promise<Map<string, StoredDocument>> | null = null
+
+  async function loadAll(): Promise<Map<string, StoredDocument>> {
+    let files: string[]
+    try {
+      files = await fs.readdir(directory)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return new Map()
+      throw error
+    }
+
+    const stored = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) => JSON.parse(await fs.readFile(path.join(directory, file), "utf8")) as StoredDocument),
+    )
+    return new Map(stored.map((entry) => [entry.document.id, entry]))
+  }
+
+  // Helper function to get the documents, reading them from disk the first time
+  function documents(): Promise<Map<string, StoredDocument>> {
+    if (!loading) {
+      loading = loadAll()
+      // Try again next time if the directory could not be read
+      loading.catch(() => (loading = null))
+    }
+    return loading
+  }
+
+  return {
+    async listDocuments() {
+      return [...(await documents()).values()].map(({ document }) => document).sort(compareDocuments)
+    },
+
+    addDocument(document, chunks) {
+      return enqueue(async () => {
+        const loaded = await documents()
+        await fs.mkdir(directory, { recursive: true })
+        const tempPath = `${filePath(document.id)}.${process.pid}.tmp`
+        await fs.writeFile(tempPath, JSON.stringify({ document, chunks }), "utf8")
+        await fs.rename(tempPath, filePath(document.id))
+        loaded.set(document.id, { document, chunks })
+      })
+    },
+
+    deleteDocument(id: string) {
+      return enqueue(async () => {
+        const loaded = await documents()
+        if (!DOCUMENT_ID_PATTERN.test(id) || !loaded.has(id)) return false
+        await fs.rm(filePath(id), { force: true })
+        loaded.delete(id)
+        return true
+      })
+    },
+
+    async search(vector, options) {
+      return rankChunks((await documents()).values(), vector, options)
+    },
+  }
+}
@@ -0,0 +1,32 @@
+import path from "path"
+
+import { createFileKnowledgeStore } from "@/lib/knowledge/file"
+import { createMemoryKnowledgeStore } from "@/lib/knowledge/memory"
+import type { KnowledgeStore } from "@/lib/knowledge/types"
+
+export type { KnowledgeChunk, KnowledgeStore, ScoredChunk } from "@/lib/knowledge/types"
+export { createFileKnowledgeStore, createMemoryKnowledgeStore }
+
+// Next.js bundles each route separately; keeping the store on globalThis lets chat requests see documents added
+// through /api/knowledge
+const globalStore = globalThis as typeof globalThis & { __knowledgeStore?: KnowledgeStore }
+
+/**
+ * Return the knowledge store selected by `KNOWLEDGE_STORE` ("file" or
+ * "memory", default "file"). The file store writes to `KNOWLEDGE_STORE_DIR`,
+ * which defaults to `.data/knowledge` in the project root.
+ */
+export function getKnowledgeStore(): KnowledgeStore {
+  if (!globalStore.__knowledgeStore) {
+    const kind = process.env.KNOWLEDGE_STORE || "file"
+    if (kind === "memory") {
+      globalStore.__knowledgeStore = createMemoryKnowledgeStore()
+    } else if (kind === "file") {
+      const directory = process.env.KNOWLEDGE_STORE_DIR || path.join(process.cwd(), ".data", "knowledge")
+      globalStore.__knowledgeStore = createFileKnowledgeStore(directory)
+    } else {
+      throw new Error(`Unknown KNOWLEDGE_STORE "${kind}" (expected "file" or "memory")`)
+    }
+  }
+  return globalStore.__knowledgeStore
+}
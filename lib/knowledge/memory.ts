@@ -0,0 +1,24 @@
+import { compareDocuments, rankChunks, type KnowledgeStore, type StoredDocument } from "@/lib/knowledge/types"
+
+// In-memory knowledge store, for tests and throwaway deployments
+export function createMemoryKnowledgeStore(): KnowledgeStore {
+  const documents = new Map<string, StoredDocument>()
+
+  return {
+    async listDocuments() {
+      return [...documents.values()].map(({ document }) => document).sort(compareDocuments)
+    },
+
+    async addDocument(document, chunks) {
+      documents.set(document.id, { document, chunks })
+    },
+
+    async deleteDocument(id: string) {
+      return documents.delete(id)
+    },
+
+    async search(vector, options) {
+      return rankChunks(documents.values(), vector, options)
+    },
+  }
+}
@@ -0,0 +1,116 @@
+import { requestEmbeddings } from "@/lib/chat-backend"
+import { CHUNK_CHARS, chunkText } from "@/lib/knowledge/chunking"
+import { getKnowledgeStore } from "@/lib/knowledge"
+import type { Logger } from "@/lib/logger"
+import { loadModelCatalog } from "@/lib/model-catalog"
+import { findTaskModel, type ModelInfo } from "@/lib/models"
+import type { AttachmentKind, KnowledgeDocument, KnowledgeSource } from "@/lib/types"
+
+/**
+ * Retrieval-augmented answers. Documents added to the knowledge base are split
+ * into chunks and embedded with the catalog's embedding model; when a chat
+ * request asks for it, the question is embedded too and the closest chunks
+ * are added to the system prompt as numbered sources the model cites.
+ */
+
+// Passages added to a prompt, and the least similarity a passage needs to be used
+export const KNOWLEDGE_TOP_K = 4
+export const MIN_SOURCE_SCORE = 0.5
+// Most chunks one document may have (about 500,000 characters)
+export const MAX_DOCUMENT_CHUNKS = 500
+// Text beyond this always makes too many chunks, so reading a document can stop there
+export const MAX_DOCUMENT_CHARS = MAX_DOCUMENT_CHUNKS * CHUNK_CHARS
+
+// Raised when a document cannot be added to the knowledge base; the message is shown to the user
+export class KnowledgeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "KnowledgeError"
+  }
+}
+
+interface BackendContext {
+  upstream: AbortController
+  deadline?: number
+  log: Logger
+}
+
+// The model documents and questions are embedded with: EMBEDDING_MODEL, or the catalog's first embedding model
+export async function getEmbeddingModel(): Promise<ModelInfo | undefined> {
+  return findTaskModel(await loadModelCatalog(), "text-embeddings", process.env.EMBEDDING_MODEL)
+}
+
+/**
+ * Chunk and embed a document's text and add it to the knowledge base. Throws
+ * a KnowledgeError when no embedding model is available or the document is
+ * too long, and backend errors from embedding.
+ */
+export async function ingestDocument(
+  { name, kind, size, text }: { name: string; kind: AttachmentKind; size: number; text: string },
+  { upstream, log }: BackendContext,
+): Promise<KnowledgeDocument> {
+  const model = await getEmbeddingModel()
+  if (!model) throw new KnowledgeError("No embedding model is available")
+
+  const texts = chunkText(text)
+  if (texts.length > MAX_DOCUMENT_CHUNKS) {
+    throw new KnowledgeError(`${name} is too long for the knowledge base (${texts.length} chunks)`)
+  }
+
+  const vectors = await requestEmbeddings({ texts, model: model.id, upstream, log })
+  const document: KnowledgeDocument = {
+    id: crypto.randomUUID(),
+    name,
+    kind,
+    size,
+    chunkCount: texts.length,
+    model: model.id,
+    createdAt: Date.now(),
+  }
+  const chunks = texts.map((chunk, index) => ({
+    id: `${document.id}-${index}`,
+    documentId: document.id,
+    index,
+    text: chunk,
+    vector: vectors[index],
+  }))
+
+  await getKnowledgeStore().addDocument(document, chunks)
+  log.info("Document added to the knowledge base", { name, chunkCount: chunks.length, model: model.id })
+  return document
+}
+
+// Find the passages closest to `question`, numbered from 1 in order of similarity
+export async function retrieveSources(
+  question: string,
+  { upstream, deadline, log }: BackendContext,
+): Promise<KnowledgeSource[]> {
+  const model = await getEmbeddingModel()
+  const store = getKnowledgeStore()
+  if (!model || !question.trim() || (await store.listDocuments()).length === 0) return []
+
+  const [vector] = await requestEmbeddings({ texts: [question], model: model.id, upstream, deadline, log })
+  const matches = await store.search(vector, { model: model.id, limit: KNOWLEDGE_TOP_K })
+  const sources = matches
+    .filter(({ score }) => score >= MIN_SOURCE_SCORE)
+    .map(({ chunk, document, score }, index) => ({
+      index: index + 1,
+      documentId: document.id,
+      documentName: document.name,
+      text: chunk.text,
+      score,
+    }))
+  log.info("Retrieved knowledge base passages", { matchCount: matches.length, sourceCount: sources.length })
+  return sources
+}
+
+// The system prompt with the retrieved passages appended as numbered sources
+export function withKnowledge(systemPrompt: string | undefined, sources: KnowledgeSource[]): string | undefined {
+  if (sources.length === 0) return systemPrompt
+
+  const passages = sources.map((source) => `[${source.index}] ${source.documentName}\n${source.text}`)
+  const instructions =
+    "Answer using the numbered sources below where they are relevant, and cite each source you use inline " +
+    "as [1], [2] and so on. If the sources do not answer the question, say so before answering from what you know."
+  return [systemPrompt, instructions, ...passages].filter(Boolean).join("\n\n")
+}
@@ -0,0 +1,71 @@
+import type { KnowledgeDocument } from "@/lib/types"
+
+// A passage of a document with its embedding
+export interface KnowledgeChunk {
+  id: string
+  documentId: string
+  // Position of the chunk within its document
+  index: number
+  text: string
+  vector: number[]
+}
+
+// A document and its chunks, as the stores keep them
+export interface StoredDocument {
+  document: KnowledgeDocument
+  chunks: KnowledgeChunk[]
+}
+
+// A chunk found by a search, with its document and its similarity to the query
+export interface ScoredChunk {
+  chunk: KnowledgeChunk
+  document: KnowledgeDocument
+  score: number
+}
+
+/**
+ * Server-side knowledge base storage: documents, their chunks and the chunk
+ * vectors. `deleteDocument` returns false when the document does not exist.
+ */
+export interface KnowledgeStore {
+  listDocuments(): Promise<KnowledgeDocument[]>
+  addDocument(document: KnowledgeDocument, chunks: KnowledgeChunk[]): Promise<void>
+  deleteDocument(id: string): Promise<boolean>
+  // The `limit` chunks embedded with `model` that are most similar to `vector`, best first
+  search(vector: number[], { model, limit }: { model: string; limit: number }): Promise<ScoredChunk[]>
+}
+
+// Documents listed newest first
+export function compareDocuments(a: KnowledgeDocument, b: KnowledgeDocument): number {
+  return b.createdAt - a.createdAt
+}
+
+// Helper function to compute the cosine similarity of two vectors of the same length
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+// Rank the chunks of `documents` by similarity to `vector`, skipping those embedded with another model
+export function rankChunks(
+  documents: Iterable<StoredDocument>,
+  vector: number[],
+  { model, limit }: { model: string; limit: number },
+): ScoredChunk[] {
+  const scored: ScoredChunk[] = []
+  for (const { document, chunks } of documents) {
+    if (document.model !== model) continue
+    for (const chunk of chunks) {
+      if (chunk.vector.length !== vector.length) continue
+      scored.push({ chunk, document, score: cosineSimilarity(chunk.vector, vector) })
+    }
+  }
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit)
+}
@@ -0,0 +1,114 @@
+/**
+ * Leveled, structured server logging: one JSON object per line with the
+ * level, message and any fields, such as the request ID. LOG_LEVEL sets the
+ * lowest level written (debug, info, warn or error; default info).
+ *
+ * Conversation content is redacted by default: fields named like prompts,
+ * messages or response text are replaced with their length. Set
+ * LOG_CONTENT=true to log them while debugging. Credentials are always redacted.
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const
+export type LogLevel = (typeof LOG_LEVELS)[number]
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  // A logger that adds `fields` to every entry
+  child(fields: LogFields): Logger
+}
+
+// Header carrying the request ID to and from callers
+export const REQUEST_ID_HEADER = "X-Request-Id"
+
+// Fields holding conversation content, redacted unless LOG_CONTENT is set
+const CONTENT_FIELDS = new Set([
+  "content",
+  "messages",
+  "prompt",
+  "systemPrompt",
+  "text",
+  "textDelta",
+  "body",
+  "responseText",
+])
+// Fields holding credentials, always redacted
+const SECRET_FIELD_PATTERN = /authorization|api[-_]?key|password|secret|token|cookie/i
+// Nested objects deeper than this are summarized
+const MAX_DEPTH = 5
+
+function getMinLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase()
+  return LOG_LEVELS.find((candidate) => candidate === level) || "info"
+}
+
+// Helper function to describe a redacted value without revealing it
+function redacted(value: unknown): string {
+  return typeof value === "string" ? `[redacted ${value.length} chars]` : "[redacted]"
+}
+
+// Helper function to make a field value safe and serializable
+function sanitize(value: unknown, logContent: boolean, depth = 0): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message }
+  }
+  if (value === null || typeof value !== "object") return value
+  if (depth >= MAX_DEPTH) return "[truncated]"
+
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitize(item, logContent, depth + 1))
+  }
+
+  const sanitized: LogFields = {}
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (SECRET_FIELD_PATTERN.test(key)) {
+      sanitized[key] = "[redacted]"
+    } else if (!logContent && CONTENT_FIELDS.has(key) && fieldValue !== undefined) {
+      sanitized[key] = redacted(fieldValue)
+    } else {
+      sanitized[key] = sanitize(fieldValue, logContent, depth + 1)
+    }
+  }
+  return sanitized
+}
+
+// Helper function to write one log entry at `level`
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(getMinLevel())) return
+
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...(sanitize(fields, process.env.LOG_CONTENT === "true") as LogFields),
+  }
+  const line = JSON.stringify(entry)
+  if (level === "error") console.error(line)
+  else if (level === "warn") console.warn(line)
+  else console.log(line)
+}
+
+export function createLogger(baseFields: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write("debug", message, { ...baseFields, ...fields }),
+    info: (message, fields) => write("info", message, { ...baseFields, ...fields }),
+    warn: (message, fields) => write("warn", message, { ...baseFields, ...fields }),
+    error: (message, fields) => write("error", message, { ...baseFields, ...fields }),
+    child: (fields) => createLogger({ ...baseFields, ...fields }),
+  }
+}
+
+export const logger = createLogger()
+
+/**
+ * The ID of a request: the caller's X-Request-Id when it looks like one, so IDs
+ * from a proxy carry through, or a new one.
+ */
+export function getRequestId(req: Request): string {
+  const requestId = req.headers.get(REQUEST_ID_HEADER)
+  return requestId && /^[\w.-]{8,128}$/.test(requestId) ? requestId : crypto.randomUUID()
+}
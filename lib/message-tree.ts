@@ -0,0 +1,54 @@
+import type { Message } from "@/lib/types"
+
+/**
+ * Conversations are stored as a flat list of message nodes linked by `parentId`.
+ * Editing a prompt or regenerating a reply adds a sibling node instead of
+ * overwriting, and the conversation's `currentLeafId` selects which branch is
+ * shown. Siblings are ordered by their position in the list (creation order).
+ */
+
+// Give legacy flat histories (no parentId) a linear parent chain
+export function normalizeTree(messages: Message[]): Message[] {
+  if (messages.every((message) => message.parentId !== undefined)) return messages
+  return messages.map((message, index) =>
+    message.parentId !== undefined ? message : { ...message, parentId: index > 0 ? messages[index - 1].id : null },
+  )
+}
+
+export function getChildren(messages: Message[], parentId: string | null): Message[] {
+  return messages.filter((message) => (message.parentId ?? null) === parentId)
+}
+
+export function getSiblings(messages: Message[], message: Message): Message[] {
+  return getChildren(messages, message.parentId ?? null)
+}
+
+// Follow the most recent child from a node down to a leaf
+export function getLatestLeaf(messages: Message[], fromId: string): string {
+  let currentId = fromId
+  while (true) {
+    const children = getChildren(messages, currentId)
+    if (children.length === 0) return currentId
+    currentId = children[children.length - 1].id
+  }
+}
+
+// The default leaf: the latest branch from the most recent root
+export function getDefaultLeaf(messages: Message[]): string | null {
+  const roots = getChildren(messages, null)
+  return roots.length > 0 ? getLatestLeaf(messages, roots[roots.length - 1].id) : null
+}
+
+// The messages on the path from the root to `leafId`, in order
+export function getThread(messages: Message[], leafId: string | null): Message[] {
+  const byId = new Map(messages.map((message) => [message.id, message]))
+  const thread: Message[] = []
+
+  let current = leafId ? byId.get(leafId) : undefined
+  while (current && thread.length <= messages.length) {
+    thread.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return thread
+}
+
@@ -0,0 +1,117 @@
+/**
+ * In-memory backend metrics, exposed in the Prometheus text format at
+ * /api/metrics. Series are labeled by model and backend profile; counts start
+ * at zero whenever the server process restarts.
+ */
+
+export type MetricLabels = Record<string, string>
+
+interface Series {
+  labels: MetricLabels
+  value: number
+}
+
+interface HistogramSeries {
+  labels: MetricLabels
+  buckets: number[]
+  sum: number
+  count: number
+}
+
+// Upper bounds, in seconds, of the backend latency histogram buckets
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+
+const COUNTERS = {
+  chat_backend_requests_total: "Backend requests, including retries and fallbacks",
+  chat_backend_errors_total: "Failed backend requests by error category",
+  chat_backend_response_bytes_total: "Bytes received from backends",
+} as const
+
+export type CounterName = keyof typeof COUNTERS
+
+interface Registry {
+  counters: Map<CounterName, Map<string, Series>>
+  latency: Map<string, HistogramSeries>
+}
+
+// Next.js bundles each route separately; keeping the registry on globalThis lets /api/metrics see every route
+const store = globalThis as typeof globalThis & { __chatMetrics?: Registry }
+const { counters, latency } = (store.__chatMetrics ??= { counters: new Map(), latency: new Map() })
+
+// Helper function to key a series by its labels, independent of their order
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+export function incrementCounter(name: CounterName, labels: MetricLabels, amount = 1) {
+  const series = counters.get(name) || new Map<string, Series>()
+  counters.set(name, series)
+
+  const key = seriesKey(labels)
+  const entry = series.get(key) || { labels, value: 0 }
+  entry.value += amount
+  series.set(key, entry)
+}
+
+// Record how long a backend took to start answering
+export function observeLatency(labels: MetricLabels, seconds: number) {
+  const key = seriesKey(labels)
+  const entry = latency.get(key) || { labels, buckets: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 }
+  LATENCY_BUCKETS.forEach((bound, index) => {
+    if (seconds <= bound) entry.buckets[index]++
+  })
+  entry.sum += seconds
+  entry.count++
+  latency.set(key, entry)
+}
+
+/**
+ * Pass a response through unchanged while counting the bytes of its body
+ * towards `chat_backend_response_bytes_total`.
+ */
+export function meterResponseBytes(response: Response, labels: MetricLabels): Response {
+  if (!response.body) return response
+
+  const body = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        incrementCounter("chat_backend_response_bytes_total", labels, chunk.byteLength)
+        controller.enqueue(chunk)
+      },
+    }),
+  )
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers })
+}
+
+// Helper function to format a label set, e.g. `{model="x",backend="y"}`
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"')}"`,
+  )
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : ""
+}
+
+// Every metric in the Prometheus text exposition format
+export function renderMetrics(): string {
+  const lines: string[] = []
+
+  for (const [name, help] of Object.entries(COUNTERS) as [CounterName, string][]) {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`)
+    for (const { labels, value } of counters.get(name)?.values() || []) {
+      lines.push(`${name}${formatLabels(labels)} ${value}`)
+    }
+  }
+
+  const histogram = "chat_backend_latency_seconds"
+  lines.push(`# HELP ${histogram} Time until a backend started answering`, `# TYPE ${histogram} histogram`)
+  for (const { labels, buckets, sum, count } of latency.values()) {
+    LATENCY_BUCKETS.forEach((bound, index) => {
+      lines.push(`${histogram}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`)
+    })
+    lines.push(`${histogram}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`)
+    lines.push(`${histogram}_sum${formatLabels(labels)} ${sum}`)
+    lines.push(`${histogram}_count${formatLabels(labels)} ${count}`)
+  }
+
+  return `${lines.join("\n")}\n`
+}
@@ -0,0 +1,215 @@
+import { logger } from "@/lib/logger"
+import { DEFAULT_MODEL_CATALOG, findModel, type ModelInfo, type ModelTask } from "@/lib/models"
+
+// Catalog entries in MODEL_CATALOG may be partial overrides of built-in models, or disable them
+type CatalogEntry = Partial<ModelInfo> & { id: string; disabled?: boolean }
+
+// How long backend models are reused, how long to wait for the model search API, and how long after a failed
+// search to keep using what is cached before asking again
+const BACKEND_CATALOG_TTL_MS = 10 * 60 * 1000
+const BACKEND_CATALOG_TIMEOUT_MS = 5000
+const BACKEND_CATALOG_RETRY_MS = 60 * 1000
+
+// Workers AI task names, as reported by the model search API
+const WORKERS_AI_TASKS: Record<string, ModelTask> = {
+  "Text Generation": "text-generation",
+  "Text-to-Image": "text-to-image",
+  "Automatic Speech Recognition": "automatic-speech-recognition",
+  "Text-to-Speech": "text-to-speech",
+  "Text Embeddings": "text-embeddings",
+}
+
+interface BackendCache {
+  models: ModelInfo[]
+  fetchedAt: number
+  failedAt?: number
+  // The search in flight, shared by every request that needs it
+  pending?: Promise<ModelInfo[]>
+}
+
+// Next.js bundles each route separately; keeping the cache on globalThis lets every route reuse one search
+const globalCache = globalThis as typeof globalThis & { __backendModelCache?: BackendCache }
+
+// Helper function to read MODEL_CATALOG (a JSON array of catalog entries)
+function readConfiguredEntries(): CatalogEntry[] {
+  const raw = process.env.MODEL_CATALOG
+  if (!raw) return []
+
+  try {
+    const entries = JSON.parse(raw)
+    if (!Array.isArray(entries)) throw new Error("expected a JSON array")
+    return entries.filter((entry): entry is CatalogEntry => typeof entry?.id === "string")
+  } catch (error) {
+    logger.error("Ignoring invalid MODEL_CATALOG", { error })
+    return []
+  }
+}
+
+// Helper function to compare provider names regardless of case and punctuation ("stabilityai", "Stability AI")
+function providerKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+// Built-in provider names, by their key and by the key of the id segment their models use ("meta" for "Meta")
+const KNOWN_PROVIDERS = new Map(
+  DEFAULT_MODEL_CATALOG.flatMap(({ id, provider }) => [
+    [providerKey(provider), provider],
+    [providerKey(id.split("/")[1] || ""), provider],
+  ]),
+)
+
+/**
+ * Name the provider of a model id such as "@cf/meta/llama-3.2-1b-instruct" the
+ * way the built-in catalog does, so discovered models group with built-in
+ * ones. Unknown providers are title-cased ("some-lab" becomes "Some Lab").
+ */
+function providerName(id: string): string {
+  const segment = id.split("/")[1]
+  if (!segment) return "Other"
+  return (
+    KNOWN_PROVIDERS.get(providerKey(segment)) ??
+    segment
+      .split(/[-_]+/)
+      .filter(Boolean)
+      .map((word) => word[0].toUpperCase() + word.slice(1))
+      .join(" ")
+  )
+}
+
+// Helper function to fill in an entry that does not extend a known model
+function completeEntry(entry: CatalogEntry): ModelInfo {
+  return {
+    name: entry.id.split("/").pop() || entry.id,
+    provider: providerName(entry.id),
+    task: "text-generation",
+    contextLength: 4096,
+    maxOutputTokens: 1024,
+    streaming: true,
+    inputs: ["text"],
+    ...entry,
+  }
+}
+
+// Apply catalog entries on top of a list of models
+function mergeEntries(models: ModelInfo[], entries: CatalogEntry[]): ModelInfo[] {
+  const merged = [...models]
+  for (const { disabled, ...entry } of entries) {
+    const index = merged.findIndex((model) => model.id === entry.id)
+    if (disabled) {
+      if (index >= 0) merged.splice(index, 1)
+    } else if (index >= 0) {
+      merged[index] = { ...merged[index], ...entry }
+    } else {
+      merged.push(completeEntry(entry))
+    }
+  }
+  return merged
+}
+
+/**
+ * The catalog from server configuration: the built-in models with the
+ * MODEL_CATALOG entries applied. Synchronous, so request handling can look up
+ * limits without waiting on the network.
+ */
+export function getConfiguredCatalog(): ModelInfo[] {
+  return mergeEntries(DEFAULT_MODEL_CATALOG, readConfiguredEntries())
+}
+
+/**
+ * Configured models first, followed by the backend models the configuration
+ * does not mention. Models disabled in MODEL_CATALOG stay hidden even if the
+ * backend offers them.
+ */
+function mergeBackendModels(configured: ModelInfo[], backendModels: ModelInfo[]): ModelInfo[] {
+  const disabled = new Set(readConfiguredEntries().filter((entry) => entry.disabled).map((entry) => entry.id))
+  const extra = backendModels.filter((model) => !disabled.has(model.id) && !findModel(configured, model.id))
+  return [...configured, ...extra]
+}
+
+/**
+ * The catalog as far as it is known without waiting: the configured models
+ * and the backend models from the last search. loadModelCatalog runs before
+ * a request is handled, so the backend models are there when they exist.
+ */
+function getKnownCatalog(): ModelInfo[] {
+  return mergeBackendModels(getConfiguredCatalog(), globalCache.__backendModelCache?.models || [])
+}
+
+export function getModelInfo(id?: string): ModelInfo | undefined {
+  return findModel(getKnownCatalog(), id)
+}
+
+// The requested model followed by its configured fallbacks, skipping unknown and repeated ids
+export function getFallbackChain(id: string): string[] {
+  const catalog = getKnownCatalog()
+  const chain = [id]
+  for (const fallback of findModel(catalog, id)?.fallbacks || []) {
+    if (!chain.includes(fallback) && findModel(catalog, fallback)) chain.push(fallback)
+  }
+  return chain
+}
+
+// Query the Workers AI model search API
+async function searchBackendModels(accountId: string, apiToken: string): Promise<ModelInfo[]> {
+  const response = await fetch(
+    `https://api.cloudflare.com/client/v4/accounts/${accountId}/ai/models/search?per_page=500`,
+    { headers: { Authorization: `Bearer ${apiToken}` }, signal: AbortSignal.timeout(BACKEND_CATALOG_TIMEOUT_MS) },
+  )
+  if (!response.ok) {
+    throw new Error(`Model search failed with status ${response.status}`)
+  }
+
+  const data = await response.json()
+  const models: ModelInfo[] = (Array.isArray(data?.result) ? data.result : [])
+    .filter((model: any) => typeof model?.name === "string" && WORKERS_AI_TASKS[model?.task?.name])
+    .map((model: any) => {
+      const properties: Record<string, string> = Object.fromEntries(
+        (model.properties || []).map((property: any) => [property.property_id, String(property.value)]),
+      )
+      return completeEntry({
+        id: model.name,
+        task: WORKERS_AI_TASKS[model.task.name],
+        ...(Number(properties.context_window) > 0 && { contextLength: Number(properties.context_window) }),
+      })
+    })
+
+  return models
+}
+
+/**
+ * The backend's models when Cloudflare credentials are configured. Only the
+ * first search is waited for: after that, expired models are returned at once
+ * while a new search runs in the background. A failed search only logs, keeps
+ * the models found before, and is not retried for BACKEND_CATALOG_RETRY_MS.
+ */
+async function fetchBackendModels(): Promise<ModelInfo[]> {
+  const accountId = process.env.CLOUDFLARE_ACCOUNT_ID
+  const apiToken = process.env.CLOUDFLARE_API_TOKEN
+  if (!accountId || !apiToken) return []
+
+  const cache = (globalCache.__backendModelCache ??= { models: [], fetchedAt: 0 })
+  const now = Date.now()
+  if (now - cache.fetchedAt < BACKEND_CATALOG_TTL_MS) return cache.models
+  if (cache.failedAt && now - cache.failedAt < BACKEND_CATALOG_RETRY_MS) return cache.models
+
+  cache.pending ??= searchBackendModels(accountId, apiToken)
+    .then((models) => {
+      Object.assign(cache, { models, fetchedAt: Date.now(), failedAt: undefined })
+      return models
+    })
+    .catch((error) => {
+      cache.failedAt = Date.now()
+      logger.error("Failed to load models from backend", { error, cachedModels: cache.models.length })
+      return cache.models
+    })
+    .finally(() => {
+      cache.pending = undefined
+    })
+  return cache.fetchedAt ? cache.models : cache.pending
+}
+
+// The full catalog: configured models first, followed by any models the backend reports that the configuration
+// does not mention
+export async function loadModelCatalog(): Promise<ModelInfo[]> {
+  return mergeBackendModels(getConfiguredCatalog(), await fetchBackendModels())
+}
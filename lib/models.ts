@@ -0,0 +1,243 @@
+import type { NumericParam } from "@/lib/generation"
+
+export type ModelInput = "text" | "image" | "audio"
+
+/**
+ * How a vision model takes images (see lib/vision.ts):
+ * - `content-parts`: OpenAI-style `image_url` parts in each message's content (the default)
+ * - `image-field`: text-only messages plus the latest image as a base64 `image` field (Llama 3.2 Vision)
+ * - `prompt`: a flattened `prompt` plus the latest image as an `image` byte array (LLaVA)
+ */
+export type ImageInputFormat = "content-parts" | "image-field" | "prompt"
+
+export type ModelTask =
+  | "text-generation"
+  | "text-to-image"
+  | "automatic-speech-recognition"
+  | "text-to-speech"
+  | "text-embeddings"
+
+export interface ModelInfo {
+  id: string
+  name: string
+  provider: string
+  task: ModelTask
+  // Context window and output limit, in tokens
+  contextLength: number
+  maxOutputTokens: number
+  streaming: boolean
+  inputs: ModelInput[]
+  // How images are sent to a model with the "image" input
+  imageInput?: ImageInputFormat
+  // Can call tools (see lib/tools)
+  tools?: boolean
+  // Generation parameters the model ignores
+  unsupportedParams?: NumericParam[]
+  // Models to answer with, in order, when this one is unavailable or keeps failing
+  fallbacks?: string[]
+  // Backend profile serving the model (see lib/backends.ts); the default profile when unset
+  backend?: string
+}
+
+export const DEFAULT_MODEL_ID = "@cf/meta/llama-3.1-8b-instruct"
+
+// Built-in catalog of Workers AI models; the server can extend or override it (see lib/model-catalog.ts)
+export const DEFAULT_MODEL_CATALOG: ModelInfo[] = [
+  {
+    id: "@cf/meta/llama-3.1-8b-instruct",
+    name: "Llama 3.1 8B",
+    provider: "Meta",
+    task: "text-generation",
+    contextLength: 7968,
+    maxOutputTokens: 2048,
+    streaming: true,
+    inputs: ["text"],
+  },
+  {
+    id: "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+    name: "Llama 3.3 70B",
+    provider: "Meta",
+    task: "text-generation",
+    contextLength: 24000,
+    maxOutputTokens: 4096,
+    streaming: true,
+    inputs: ["text"],
+    tools: true,
+    fallbacks: ["@cf/meta/llama-3.1-8b-instruct"],
+  },
+  {
+    id: "@cf/meta/llama-3.2-3b-instruct",
+    name: "Llama 3.2 3B",
+    provider: "Meta",
+    task: "text-generation",
+    contextLength: 128000,
+    maxOutputTokens: 2048,
+    streaming: true,
+    inputs: ["text"],
+  },
+  {
+    id: "@cf/meta/llama-3.2-11b-vision-instruct",
+    name: "Llama 3.2 11B Vision",
+    provider: "Meta",
+    task: "text-generation",
+    contextLength: 128000,
+    maxOutputTokens: 2048,
+    streaming: true,
+    inputs: ["text", "image"],
+    imageInput: "image-field",
+  },
+  {
+    id: "@cf/llava-hf/llava-1.5-7b-hf",
+    name: "LLaVA 1.5 7B",
+    provider: "LLaVA",
+    task: "text-generation",
+    contextLength: 4096,
+    maxOutputTokens: 512,
+    streaming: false,
+    inputs: ["text", "image"],
+    imageInput: "prompt",
+  },
+  {
+    id: "@cf/mistralai/mistral-small-3.1-24b-instruct",
+    name: "Mistral Small 3.1 24B",
+    provider: "Mistral",
+    task: "text-generation",
+    contextLength: 128000,
+    maxOutputTokens: 4096,
+    streaming: true,
+    inputs: ["text", "image"],
+    tools: true,
+  },
+  {
+    id: "@hf/mistral/mistral-7b-instruct-v0.2",
+    name: "Mistral 7B v0.2",
+    provider: "Mistral",
+    task: "text-generation",
+    contextLength: 3072,
+    maxOutputTokens: 1024,
+    streaming: true,
+    inputs: ["text"],
+  },
+  {
+    id: "@cf/qwen/qwen2.5-coder-32b-instruct",
+    name: "Qwen 2.5 Coder 32B",
+    provider: "Qwen",
+    task: "text-generation",
+    contextLength: 32768,
+    maxOutputTokens: 4096,
+    streaming: true,
+    inputs: ["text"],
+  },
+  {
+    id: "@cf/qwen/qwq-32b",
+    name: "QwQ 32B",
+    provider: "Qwen",
+    task: "text-generation",
+    contextLength: 24000,
+    maxOutputTokens: 4096,
+    streaming: true,
+    inputs: ["text"],
+  },
+  {
+    id: "@cf/google/gemma-3-12b-it",
+    name: "Gemma 3 12B",
+    provider: "Google",
+    task: "text-generation",
+    contextLength: 80000,
+    maxOutputTokens: 2048,
+    streaming: true,
+    inputs: ["text", "image"],
+  },
+  {
+    id: "@cf/deepseek-ai/deepseek-r1-distill-qwen-32b",
+    name: "DeepSeek R1 Distill Qwen 32B",
+    provider: "DeepSeek",
+    task: "text-generation",
+    contextLength: 80000,
+    maxOutputTokens: 4096,
+    streaming: true,
+    inputs: ["text"],
+    unsupportedParams: ["topK"],
+  },
+  {
+    id: "@cf/black-forest-labs/flux-1-schnell",
+    name: "FLUX.1 [schnell]",
+    provider: "Black Forest Labs",
+    task: "text-to-image",
+    contextLength: 2048,
+    maxOutputTokens: 0,
+    streaming: false,
+    inputs: ["text"],
+    // Only the seed applies to image generation
+    unsupportedParams: ["temperature", "maxTokens", "topP", "topK", "repetitionPenalty"],
+  },
+  {
+    id: "@cf/stabilityai/stable-diffusion-xl-base-1.0",
+    name: "Stable Diffusion XL",
+    provider: "Stability AI",
+    task: "text-to-image",
+    contextLength: 77,
+    maxOutputTokens: 0,
+    streaming: false,
+    inputs: ["text"],
+    // Only the seed applies to image generation
+    unsupportedParams: ["temperature", "maxTokens", "topP", "topK", "repetitionPenalty"],
+  },
+  {
+    id: "@cf/openai/whisper",
+    name: "Whisper",
+    provider: "OpenAI",
+    task: "automatic-speech-recognition",
+    contextLength: 0,
+    maxOutputTokens: 0,
+    streaming: false,
+    inputs: ["audio"],
+  },
+  {
+    id: "@cf/myshell-ai/melotts",
+    name: "MeloTTS",
+    provider: "MyShell",
+    task: "text-to-speech",
+    contextLength: 0,
+    maxOutputTokens: 0,
+    streaming: false,
+    inputs: ["text"],
+  },
+  {
+    id: "@cf/baai/bge-base-en-v1.5",
+    name: "BGE Base EN v1.5",
+    provider: "BAAI",
+    task: "text-embeddings",
+    contextLength: 512,
+    maxOutputTokens: 0,
+    streaming: false,
+    inputs: ["text"],
+  },
+]
+
+export function findModel(catalog: ModelInfo[], id?: string): ModelInfo | undefined {
+  return id ? catalog.find((model) => model.id === id) : undefined
+}
+
+// The model with `id` if it performs `task`, or the first catalog model that does when no id is given
+export function findTaskModel(catalog: ModelInfo[], task: ModelTask, id?: string): ModelInfo | undefined {
+  const model = id ? findModel(catalog, id) : catalog.find((candidate) => candidate.task === task)
+  return model?.task === task ? model : undefined
+}
+
+// Group models by provider, keeping catalog order within each group
+export function groupModelsByProvider(models: ModelInfo[]): [provider: string, models: ModelInfo[]][] {
+  const groups = new Map<string, ModelInfo[]>()
+  for (const model of models) {
+    groups.set(model.provider, [...(groups.get(model.provider) || []), model])
+  }
+  return [...groups.entries()]
+}
+
+/**
+ * Whether a chat model can continue a conversation: it has to generate text and
+ * accept every input type the conversation already contains.
+ */
+export function canModelHandle(model: ModelInfo, requiredInputs: ModelInput[] = ["text"]): boolean {
+  return model.task === "text-generation" && requiredInputs.every((input) => model.inputs.includes(input))
+}
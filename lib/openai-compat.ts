@@ -0,0 +1,113 @@
+import type { Usage } from "@/lib/adapters"
+import type { ChatMessage } from "@/lib/chat-history"
+import type { ErrorCategory } from "@/lib/errors"
+import type { GenerationParams } from "@/lib/generation"
+import { jsonResponse } from "@/lib/http"
+import type { OpenAIChatCompletionInput } from "@/lib/schemas"
+
+/**
+ * Translation between the OpenAI chat-completions protocol and this app's
+ * chat types, for the /api/v1 routes.
+ */
+
+// OpenAI error `type` for each chat error category
+const OPENAI_ERROR_TYPES: Record<ErrorCategory, string> = {
+  rate_limited: "rate_limit_error",
+  model_unavailable: "server_error",
+  timeout: "server_error",
+  bad_request: "invalid_request_error",
+  upstream_error: "server_error",
+}
+
+// Helper function to build an error response in the OpenAI `{ error: { message, type, code } }` shape
+export function openAIErrorResponse(
+  status: number,
+  message: string,
+  category?: ErrorCategory,
+  headers: HeadersInit = {},
+): Response {
+  const type = category ? OPENAI_ERROR_TYPES[category] : status < 500 ? "invalid_request_error" : "server_error"
+  return jsonResponse({ error: { message, type, code: category ?? null } }, status, headers)
+}
+
+// Helper function to flatten string or multi-part message content to text
+function contentToText(content: OpenAIChatCompletionInput["messages"][number]["content"]): string {
+  if (typeof content === "string") return content
+  if (!Array.isArray(content)) return ""
+  return content
+    .filter((part) => part.type === "text" && typeof part.text === "string")
+    .map((part) => part.text)
+    .join("\n")
+}
+
+/**
+ * Split OpenAI messages into the chat history and a system prompt. System and
+ * developer messages are merged into the system prompt; tool messages are dropped.
+ */
+export function toChatMessages(messages: OpenAIChatCompletionInput["messages"]): {
+  messages: ChatMessage[]
+  systemPrompt?: string
+} {
+  const system = messages.filter((message) => message.role === "system" || message.role === "developer")
+  const systemPrompt = system.map((message) => contentToText(message.content)).join("\n\n") || undefined
+
+  return {
+    messages: messages
+      .filter((message) => message.role === "user" || message.role === "assistant")
+      .map((message) => ({ role: message.role as ChatMessage["role"], content: contentToText(message.content) })),
+    systemPrompt,
+  }
+}
+
+export function toGenerationParams(body: OpenAIChatCompletionInput, systemPrompt?: string): GenerationParams {
+  return {
+    systemPrompt,
+    temperature: body.temperature ?? undefined,
+    maxTokens: body.max_completion_tokens ?? body.max_tokens ?? undefined,
+    topP: body.top_p ?? undefined,
+    topK: body.top_k ?? undefined,
+    repetitionPenalty: body.repetition_penalty ?? undefined,
+    seed: body.seed ?? undefined,
+  }
+}
+
+export function toOpenAIUsage(usage?: Usage) {
+  if (!usage) return undefined
+  return {
+    prompt_tokens: usage.promptTokens ?? 0,
+    completion_tokens: usage.completionTokens ?? 0,
+    total_tokens: usage.totalTokens ?? (usage.promptTokens ?? 0) + (usage.completionTokens ?? 0),
+  }
+}
+
+// Shared fields of every completion object and chunk in one response
+export interface CompletionIdentity {
+  id: string
+  created: number
+  model: string
+}
+
+export function newCompletionIdentity(model: string): CompletionIdentity {
+  return { id: `chatcmpl-${crypto.randomUUID()}`, created: Math.floor(Date.now() / 1000), model }
+}
+
+export function toCompletionChunk(
+  identity: CompletionIdentity,
+  delta: { role?: "assistant"; content?: string },
+  finishReason: string | null = null,
+) {
+  return {
+    ...identity,
+    object: "chat.completion.chunk",
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  }
+}
+
+export function toCompletion(identity: CompletionIdentity, content: string, finishReason: string, usage?: Usage) {
+  return {
+    ...identity,
+    object: "chat.completion",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: finishReason }],
+    ...(usage && { usage: toOpenAIUsage(usage) }),
+  }
+}
@@ -0,0 +1,191 @@
+import { constants, inflateSync } from "zlib"
+
+/**
+ * Minimal PDF text extraction without a PDF library: inflate the page content
+ * streams and read the strings shown by the text operators (Tj, TJ, ' and ").
+ * It handles the text layer of ordinary generated PDFs; scanned pages have no
+ * text to extract, and fonts with custom encodings come out garbled.
+ */
+
+// Most bytes one stream may inflate to, and all streams of a file together, so a deflate bomb cannot exhaust memory
+const MAX_STREAM_BYTES = 8 * 1024 * 1024
+const MAX_INFLATED_BYTES = 32 * 1024 * 1024
+
+// Helper function to decode the escapes of a literal string
+function decodeLiteral(raw: string): string {
+  return raw.replace(/\\(\r\n|\n|\r|[0-7]{1,3}|.)/g, (_, escape: string) => {
+    if (/^[0-7]+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8))
+    if (escape === "n") return "\n"
+    if (escape === "r") return "\r"
+    if (escape === "t") return "\t"
+    if (escape === "b" || escape === "f") return ""
+    // A backslash before a line break continues the string
+    if (/^[\r\n]+$/.test(escape)) return ""
+    return escape
+  })
+}
+
+// Helper function to decode a hex string, which holds UTF-16 when it starts with a byte order mark
+function decodeHex(hex: string): string {
+  const clean = hex.replace(/[^0-9a-f]/gi, "")
+  const bytes = Buffer.from(clean.length % 2 ? `${clean}0` : clean, "hex")
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return bytes.subarray(2).swap16().toString("utf16le")
+  return bytes.toString("latin1")
+}
+
+// Helper function to decode a string that may be UTF-16 with a byte order mark
+function decodePdfString(value: string): string {
+  if (value.charCodeAt(0) === 0xfe && value.charCodeAt(1) === 0xff) {
+    return Buffer.from(value.slice(2), "latin1").swap16().toString("utf16le")
+  }
+  return value
+}
+
+type Operand = string | number | (string | number)[]
+
+/**
+ * Read the text of one content stream. Text positioning operators that move
+ * to a new line become line breaks, and large gaps inside TJ arrays become spaces.
+ */
+function readContentText(content: string): string {
+  let text = ""
+  let operands: Operand[] = []
+  let array: (string | number)[] | null = null
+  let index = 0
+
+  const push = (value: string | number) => (array ? array.push(value) : operands.push(value))
+  const lastString = () => {
+    const value = operands[operands.length - 1]
+    return typeof value === "string" ? decodePdfString(value) : ""
+  }
+
+  while (index < content.length) {
+    const char = content[index]
+
+    if (char === "(") {
+      // Literal strings may contain balanced parentheses
+      let depth = 1
+      let end = index + 1
+      while (end < content.length && depth > 0) {
+        if (content[end] === "\\") end++
+        else if (content[end] === "(") depth++
+        else if (content[end] === ")") depth--
+        end++
+      }
+      push(decodeLiteral(content.slice(index + 1, end - 1)))
+      index = end
+    } else if (char === "<" && content[index + 1] !== "<") {
+      const end = content.indexOf(">", index)
+      if (end < 0) break
+      push(decodeHex(content.slice(index + 1, end)))
+      index = end + 1
+    } else if (char === "[") {
+      array = []
+      index++
+    } else if (char === "]") {
+      if (array) operands.push(array)
+      array = null
+      index++
+    } else if (/[-+.\d]/.test(char)) {
+      const match = /^[-+]?(\d+\.?\d*|\.\d+)/.exec(content.slice(index, index + 32))
+      if (match) push(Number(match[0]))
+      index += match ? match[0].length : 1
+    } else if (char === "%") {
+      // Comments run to the end of the line
+      const end = content.slice(index).search(/[\r\n]/)
+      index = end < 0 ? content.length : index + end
+    } else if (char === "/") {
+      const match = /^\/[^\s/[\]()<>{}%]*/.exec(content.slice(index))
+      index += match ? match[0].length : 1
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const match = /^[A-Za-z'"*]+/.exec(content.slice(index))!
+      const operator = match[0]
+      index += operator.length
+
+      if (operator === "Tj") {
+        text += lastString()
+      } else if (operator === "'" || operator === '"') {
+        text += `\n${lastString()}`
+      } else if (operator === "TJ") {
+        const items = operands[operands.length - 1]
+        if (Array.isArray(items)) {
+          for (const item of items) {
+            if (typeof item === "string") text += decodePdfString(item)
+            else if (item < -200) text += " "
+          }
+        }
+      } else if (operator === "Td" || operator === "TD") {
+        const ty = operands[operands.length - 1]
+        text += typeof ty === "number" && ty !== 0 ? "\n" : " "
+      } else if (operator === "T*" || operator === "ET") {
+        text += "\n"
+      } else if (operator === "Tm") {
+        text += " "
+      }
+      operands = []
+    } else {
+      index++
+    }
+  }
+
+  return text
+}
+
+// Helper function to inflate a stream, tolerating the truncated data some writers produce; null when it is
+// corrupt, and "too-large" when it would inflate to more than `maxBytes`
+function inflate(data: Buffer, maxBytes: number): Buffer | null | "too-large" {
+  try {
+    return inflateSync(data, { finishFlush: constants.Z_SYNC_FLUSH, maxOutputLength: maxBytes })
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE" ? "too-large" : null
+  }
+}
+
+/**
+ * Extract the text of a PDF file, stopping once `maxChars` characters have
+ * been read, the streams inflated so far reach MAX_INFLATED_BYTES or one
+ * stream would inflate past MAX_STREAM_BYTES. Returns an empty string when
+ * the file has no readable text layer.
+ */
+export function extractPdfText(pdf: Buffer, maxChars: number): string {
+  const source = pdf.toString("latin1")
+  const parts: string[] = []
+  const streamStart = /stream\r?\n/g
+  let inflatedBytes = 0
+  let textChars = 0
+
+  let match: RegExpExecArray | null
+  while (textChars < maxChars && inflatedBytes < MAX_INFLATED_BYTES && (match = streamStart.exec(source))) {
+    const dataStart = match.index + match[0].length
+    const dataEnd = source.indexOf("endstream", dataStart)
+    if (dataEnd < 0) break
+    streamStart.lastIndex = dataEnd + "endstream".length
+
+    // The stream dictionary sits between the object header and the `stream` keyword
+    const dictionary = source.slice(source.lastIndexOf(" obj", match.index), match.index)
+    if (/\/Subtype\s*\/Image|\/FontFile|\/Length1|\/Type\s*\/(XRef|ObjStm|Metadata)/.test(dictionary)) continue
+    if (/\/Filter/.test(dictionary) && !/\/FlateDecode/.test(dictionary)) continue
+
+    let data: Buffer | null = pdf.subarray(dataStart, dataEnd)
+    if (/\/FlateDecode/.test(dictionary)) {
+      const inflated = inflate(data, Math.min(MAX_STREAM_BYTES, MAX_INFLATED_BYTES - inflatedBytes))
+      if (inflated === "too-large") break
+      data = inflated
+      inflatedBytes += data?.length ?? 0
+    }
+    const content = data?.toString("latin1")
+    if (content && /\bBT\b/.test(content)) {
+      const text = readContentText(content)
+      parts.push(text)
+      textChars += text.length
+    }
+  }
+
+  return parts
+    .join("\n")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
@@ -0,0 +1,85 @@
+/**
+ * In-memory rate limiting for the chat routes: token buckets that refill
+ * continuously, and daily request quotas that reset at midnight UTC. State
+ * lives in the server process, so each instance of a scaled-out deployment
+ * enforces its own limits.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean
+  // How long to wait before trying again, when not allowed
+  retryAfterMs: number
+}
+
+export interface TokenBucketLimiter {
+  take(key: string): RateLimitResult
+}
+
+// Buckets are pruned once this many keys are tracked
+const MAX_TRACKED_KEYS = 10000
+
+/**
+ * A token bucket per key holding up to `capacity` requests and refilling at
+ * `perMinute` requests per minute. Each request takes one token.
+ */
+export function createTokenBucketLimiter(capacity: number, perMinute: number): TokenBucketLimiter {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>()
+  const refillPerMs = perMinute / 60000
+
+  // Helper function to drop buckets that have refilled completely
+  const prune = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= capacity) buckets.delete(key)
+    }
+  }
+
+  return {
+    take(key) {
+      const now = Date.now()
+      if (buckets.size >= MAX_TRACKED_KEYS) prune(now)
+
+      const bucket = buckets.get(key) || { tokens: capacity, updatedAt: now }
+      bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+      bucket.updatedAt = now
+      buckets.set(key, bucket)
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1
+        return { allowed: true, retryAfterMs: 0 }
+      }
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) }
+    },
+  }
+}
+
+export interface DailyQuota {
+  take(key: string): RateLimitResult & { remaining: number }
+}
+
+// Helper function to get the UTC day and the time until it ends
+function currentDay(now: number): { day: string; msUntilReset: number } {
+  const date = new Date(now)
+  const nextMidnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+  return { day: date.toISOString().slice(0, 10), msUntilReset: nextMidnight - now }
+}
+
+// At most `limit` requests per key per UTC day
+export function createDailyQuota(limit: number): DailyQuota {
+  let counts = new Map<string, number>()
+  let countsDay = ""
+
+  return {
+    take(key) {
+      const { day, msUntilReset } = currentDay(Date.now())
+      if (day !== countsDay) {
+        counts = new Map()
+        countsDay = day
+      }
+
+      const used = counts.get(key) || 0
+      if (used >= limit) return { allowed: false, retryAfterMs: msUntilReset, remaining: 0 }
+      counts.set(key, used + 1)
+      return { allowed: true, retryAfterMs: 0, remaining: limit - used - 1 }
+    },
+  }
+}
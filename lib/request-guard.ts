@@ -0,0 +1,174 @@
+import { AuthConfigError, authenticate, getClientIp, type AuthUser } from "@/lib/auth"
+import type { ErrorCategory } from "@/lib/errors"
+import { jsonResponse } from "@/lib/http"
+import { logger } from "@/lib/logger"
+import {
+  createDailyQuota,
+  createTokenBucketLimiter,
+  type DailyQuota,
+  type RateLimitResult,
+  type TokenBucketLimiter,
+} from "@/lib/rate-limit"
+
+/**
+ * Checks shared by the API routes: the CORS allow-list, authentication and,
+ * for routes that spend model quota, rate limits. Limits are configured with
+ * RATE_LIMIT_USER_PER_MINUTE (default 20), RATE_LIMIT_IP_PER_MINUTE (default 60)
+ * and DAILY_QUOTA_PER_USER (default 1000 requests); 0 turns a limit off.
+ */
+
+// A rejected request, formatted by each route in its own error shape
+export interface GuardRejection {
+  status: number
+  message: string
+  category?: ErrorCategory
+  headers: Record<string, string>
+}
+
+interface Limiters {
+  user?: TokenBucketLimiter
+  ip?: TokenBucketLimiter
+  daily?: DailyQuota
+}
+
+// Next.js bundles each route separately; keeping the limiters on globalThis makes every route draw from the same
+// buckets and quota instead of each route counting on its own
+const globalLimiters = globalThis as typeof globalThis & { __requestLimiters?: Limiters }
+
+// Helper function to read a non-negative numeric setting
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name] ?? fallback)
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+function getLimiters(): Limiters {
+  if (!globalLimiters.__requestLimiters) {
+    const userPerMinute = readLimit("RATE_LIMIT_USER_PER_MINUTE", 20)
+    const ipPerMinute = readLimit("RATE_LIMIT_IP_PER_MINUTE", 60)
+    const dailyQuota = readLimit("DAILY_QUOTA_PER_USER", 1000)
+    globalLimiters.__requestLimiters = {
+      user: userPerMinute > 0 ? createTokenBucketLimiter(userPerMinute, userPerMinute) : undefined,
+      ip: ipPerMinute > 0 ? createTokenBucketLimiter(ipPerMinute, ipPerMinute) : undefined,
+      daily: dailyQuota > 0 ? createDailyQuota(dailyQuota) : undefined,
+    }
+  }
+  return globalLimiters.__requestLimiters
+}
+
+// Origins allowed to call the API from a browser, from CORS_ALLOWED_ORIGINS (comma-separated)
+function getAllowedOrigins(): string[] {
+  return (process.env.CORS_ALLOWED_ORIGINS || "")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/+$/, ""))
+    .filter(Boolean)
+}
+
+// Requests without an Origin header (scripts, same-origin GETs) and same-origin requests are always allowed
+function isOriginAllowed(req: Request): boolean {
+  const origin = req.headers.get("origin")
+  if (!origin) return true
+  if (getAllowedOrigins().includes(origin)) return true
+  try {
+    return new URL(origin).host === (req.headers.get("host") || new URL(req.url).host)
+  } catch {
+    // Opaque origins ("null") are only allowed when listed
+    return false
+  }
+}
+
+// CORS headers for a response to an allowed cross-origin request
+export function corsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("origin")
+  if (!origin || !getAllowedOrigins().includes(origin)) return {}
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Allow-Credentials": "true",
+    "Access-Control-Expose-Headers": "X-Request-Id, Retry-After",
+    Vary: "Origin",
+  }
+}
+
+// Answer a CORS preflight request
+export function preflightResponse(req: Request, methods: string): Response {
+  if (!isOriginAllowed(req)) return new Response(null, { status: 403 })
+  return new Response(null, {
+    status: 204,
+    headers: {
+      ...corsHeaders(req),
+      "Access-Control-Allow-Methods": `${methods}, OPTIONS`,
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-API-Key, X-Request-Id",
+      "Access-Control-Max-Age": "600",
+    },
+  })
+}
+
+// Helper function to build a 429 rejection
+function rateLimited(message: string, result: RateLimitResult, headers: Record<string, string>): GuardRejection {
+  return {
+    status: 429,
+    message,
+    category: "rate_limited",
+    headers: { ...headers, "Retry-After": String(Math.max(1, Math.ceil(result.retryAfterMs / 1000))) },
+  }
+}
+
+/**
+ * Check a request's origin and credentials and, with `rateLimit`, take one
+ * request from the caller's per-IP and per-user buckets and daily quota.
+ */
+export function guardRequest(
+  req: Request,
+  { rateLimit = false }: { rateLimit?: boolean } = {},
+): { user: AuthUser; rejection?: undefined } | { user?: undefined; rejection: GuardRejection } {
+  const headers = corsHeaders(req)
+  if (!isOriginAllowed(req)) {
+    return { rejection: { status: 403, message: "Origin not allowed", headers } }
+  }
+
+  let user: AuthUser | null
+  try {
+    user = authenticate(req)
+  } catch (error) {
+    if (!(error instanceof AuthConfigError)) throw error
+    logger.error("Authentication configuration error", { error })
+    return { rejection: { status: 500, message: error.message, headers } }
+  }
+  if (!user) {
+    return {
+      rejection: {
+        status: 401,
+        message: "Authentication required",
+        headers: { ...headers, "WWW-Authenticate": 'Bearer realm="chat"' },
+      },
+    }
+  }
+
+  if (rateLimit) {
+    const { user: userLimiter, ip: ipLimiter, daily } = getLimiters()
+    // Without a known address there is nothing to key per-address limits on, and anonymous callers cannot be told
+    // apart; one shared bucket would let any single caller use up everyone's requests
+    const ip = getClientIp(req)
+    const ipResult = ip ? ipLimiter?.take(ip) : undefined
+    if (ipResult && !ipResult.allowed) {
+      return { rejection: rateLimited("Too many requests from this address", ipResult, headers) }
+    }
+    if (user.method === "anonymous" && !ip) return { user }
+
+    const userResult = userLimiter?.take(user.id)
+    if (userResult && !userResult.allowed) {
+      return { rejection: rateLimited("Too many requests", userResult, headers) }
+    }
+
+    const quotaResult = daily?.take(user.id)
+    if (quotaResult && !quotaResult.allowed) {
+      return { rejection: rateLimited("Daily quota exceeded", quotaResult, headers) }
+    }
+  }
+
+  return { user }
+}
+
+// Helper function to answer a rejected request in the `{ error, category }` shape of the app's routes
+export function rejectionResponse({ status, message, category, headers }: GuardRejection): Response {
+  return jsonResponse(category ? { error: message, category } : { error: message }, status, headers)
+}
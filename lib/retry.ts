@@ -0,0 +1,62 @@
+export interface RetryOptions {
+  // Attempts after the first one
+  retries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  signal?: AbortSignal
+  shouldRetry: (error: unknown) => boolean
+  // Minimum delay requested by the failure itself (e.g. Retry-After), which maxDelayMs does not cap
+  getRetryAfter?: (error: unknown) => number | undefined
+  // Longest requested delay worth waiting for; a failure asking for more is rethrown at once
+  maxRetryAfterMs?: number
+  // Time (in epoch ms) by which the operation must be done; no attempt is started that could not finish before it
+  deadline?: number
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+}
+
+// Exponential backoff with full jitter: a random delay up to base * 2^attempt, capped at max
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+}
+
+// Helper function to wait, rejecting early with an AbortError when the signal fires
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("The operation was aborted", "AbortError"))
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException("The operation was aborted", "AbortError"))
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Run `operation`, retrying failures accepted by `shouldRetry` with exponential
+ * backoff, or after the delay the failure asks for when that is longer. The
+ * last error is rethrown once the retries are used up, and a failure asking
+ * for more than `maxRetryAfterMs` is rethrown without waiting, so the caller
+ * can pass the delay on. So is a failure whose delay would run past the
+ * `deadline`.
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt)
+    } catch (error) {
+      if (attempt >= options.retries || options.signal?.aborted || !options.shouldRetry(error)) throw error
+
+      const retryAfterMs = options.getRetryAfter?.(error)
+      if (retryAfterMs !== undefined && retryAfterMs > (options.maxRetryAfterMs ?? Infinity)) throw error
+
+      const delayMs = Math.max(retryAfterMs ?? 0, backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs))
+      if (options.deadline !== undefined && Date.now() + delayMs >= options.deadline) throw error
+      options.onRetry?.(error, attempt + 1, delayMs)
+      await sleep(delayMs, options.signal)
+    }
+  }
+}
@@ -0,0 +1,325 @@
+import { z } from "zod"
+
+import { ATTACHMENT_KINDS, MAX_ATTACHMENT_CHARS, MAX_ATTACHMENTS_PER_MESSAGE } from "@/lib/attachments"
+import { ERROR_CATEGORIES } from "@/lib/errors"
+import { SYSTEM_PROMPT_MAX_CHARS, validateGenerationParams } from "@/lib/generation"
+import {
+  getRequiredInputs,
+  IMAGE_MIME_TYPES,
+  MAX_IMAGE_DATA_URL_CHARS,
+  MAX_IMAGES_PER_MESSAGE,
+  parseDataUrl,
+} from "@/lib/images"
+import { DEFAULT_MODEL_ID, findModel, type ModelInfo } from "@/lib/models"
+import { MAX_SPEECH_CHARS } from "@/lib/speech"
+
+// Longest prompt a user can send, and longest earlier reply the chat API accepts back
+export const MAX_INPUT_CHARS = 8000
+export const MAX_REPLY_CHARS = 32000
+// Most messages a single chat request may carry
+export const MAX_CHAT_MESSAGES = 200
+// Largest chat request body: room for MAX_IMAGES_PER_REQUEST images next to the conversation's text
+export const MAX_CHAT_BODY_BYTES = 24 * 1024 * 1024
+// Largest conversation saved in one request, images and all
+export const MAX_CONVERSATION_BODY_BYTES = 64 * 1024 * 1024
+
+// Conversation ids double as file names in the file store
+export const conversationIdSchema = z.string().regex(/^[\w-]{1,100}$/, "Invalid conversation id")
+
+export const generationParamsSchema = z.object({
+  systemPrompt: z
+    .string()
+    .max(SYSTEM_PROMPT_MAX_CHARS, `System prompt must be at most ${SYSTEM_PROMPT_MAX_CHARS} characters`)
+    .optional(),
+  temperature: z.number().optional(),
+  maxTokens: z.number().int().optional(),
+  topP: z.number().optional(),
+  topK: z.number().int().optional(),
+  repetitionPenalty: z.number().optional(),
+  seed: z.number().int().optional(),
+})
+
+export const attachmentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(255),
+  kind: z.enum(ATTACHMENT_KINDS),
+  size: z.number().int().nonnegative(),
+  text: z.string().max(MAX_ATTACHMENT_CHARS, `Attachment text must be at most ${MAX_ATTACHMENT_CHARS} characters`),
+  truncated: z.boolean().optional(),
+})
+
+const attachmentsSchema = z
+  .array(attachmentSchema)
+  .max(MAX_ATTACHMENTS_PER_MESSAGE, `A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`)
+
+export const imagePartSchema = z.object({
+  type: z.literal("image"),
+  id: z.string().min(1),
+  mimeType: z.enum(IMAGE_MIME_TYPES),
+  dataUrl: z
+    .string()
+    .max(MAX_IMAGE_DATA_URL_CHARS, "Image is too large")
+    .refine((dataUrl) => !!parseDataUrl(dataUrl), "Image must be a base64 data URL"),
+  name: z.string().max(255).optional(),
+})
+
+const imagesSchema = z
+  .array(imagePartSchema)
+  .max(MAX_IMAGES_PER_MESSAGE, `A message can have at most ${MAX_IMAGES_PER_MESSAGE} images`)
+
+export const generatedImageSchema = z.object({
+  dataUrl: z.string().refine((dataUrl) => !!parseDataUrl(dataUrl), "Image must be a base64 data URL"),
+  mimeType: z.string(),
+  prompt: z.string(),
+  seed: z.number().int().optional(),
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+})
+
+export const knowledgeSourceSchema = z.object({
+  index: z.number().int().positive(),
+  documentId: z.string(),
+  documentName: z.string(),
+  text: z.string(),
+  score: z.number(),
+})
+
+export const toolStepSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  arguments: z.unknown(),
+  result: z.string().optional(),
+  error: z.string().optional(),
+})
+
+export const messageSchema = z.object({
+  id: z.string().min(1),
+  parentId: z.string().nullable().optional(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  attachments: attachmentsSchema.optional(),
+  images: imagesSchema.optional(),
+  image: generatedImageSchema.optional(),
+  sources: z.array(knowledgeSourceSchema).optional(),
+  toolSteps: z.array(toolStepSchema).optional(),
+  stopped: z.boolean().optional(),
+  model: z.string().optional(),
+  fallbackFrom: z.string().optional(),
+  params: generationParamsSchema.optional(),
+  usage: z
+    .object({
+      promptTokens: z.number().int().nonnegative(),
+      completionTokens: z.number().int().nonnegative(),
+      estimated: z.boolean().optional(),
+    })
+    .optional(),
+  createdAt: z.number().optional(),
+  error: z
+    .object({
+      message: z.string(),
+      category: z.enum(ERROR_CATEGORIES).optional(),
+      requestId: z.string().optional(),
+    })
+    .optional(),
+})
+
+// Timestamps (in epoch ms) a client may set, so conversations it syncs keep the times it recorded
+const timestampSchema = z.number().int().nonnegative()
+
+export const createConversationSchema = z.object({
+  id: conversationIdSchema.optional(),
+  title: z.string().trim().min(1).max(200).optional(),
+  pinned: z.boolean().optional(),
+  model: z.string().optional(),
+  params: generationParamsSchema.optional(),
+  messages: z.array(messageSchema).optional(),
+  currentLeafId: z.string().nullable().optional(),
+  createdAt: timestampSchema.optional(),
+  updatedAt: timestampSchema.optional(),
+})
+
+export const updateConversationSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200),
+    pinned: z.boolean(),
+    model: z.string(),
+    params: generationParamsSchema,
+    messages: z.array(messageSchema),
+    currentLeafId: z.string().nullable(),
+    updatedAt: timestampSchema,
+  })
+  .partial()
+
+// Marks a file as a conversation exported by this app (see lib/conversation-export.ts)
+export const CONVERSATION_EXPORT_FORMAT = "cloudflare-ai-chat.conversation"
+export const CONVERSATION_EXPORT_VERSION = 1
+
+export const conversationExportSchema = z.object({
+  format: z.literal(CONVERSATION_EXPORT_FORMAT, {
+    errorMap: () => ({ message: "Not a conversation exported from this app" }),
+  }),
+  version: z.literal(CONVERSATION_EXPORT_VERSION, {
+    errorMap: () => ({ message: `Unsupported export version (expected ${CONVERSATION_EXPORT_VERSION})` }),
+  }),
+  exportedAt: z.number().optional(),
+  conversation: z.object({
+    title: z.string().trim().min(1).max(200),
+    pinned: z.boolean().optional(),
+    model: z.string().optional(),
+    params: generationParamsSchema.optional(),
+    messages: z.array(messageSchema),
+    currentLeafId: z.string().nullable().optional(),
+    createdAt: z.number().optional(),
+    updatedAt: z.number().optional(),
+  }),
+})
+
+export type ConversationExport = z.infer<typeof conversationExportSchema>
+
+export type CreateConversationInput = z.infer<typeof createConversationSchema>
+export type UpdateConversationInput = z.infer<typeof updateConversationSchema>
+
+// A message in a request to /api/chat; failed turns and UI-only fields are not sent
+export const chatMessageSchema = z.discriminatedUnion("role", [
+  z.object({
+    role: z.literal("user"),
+    content: z.string().trim().max(MAX_INPUT_CHARS, `Message must be at most ${MAX_INPUT_CHARS} characters`),
+    attachments: attachmentsSchema.optional(),
+    images: imagesSchema.optional(),
+  }),
+  z.object({
+    role: z.literal("assistant"),
+    content: z.string().max(MAX_REPLY_CHARS, `Reply must be at most ${MAX_REPLY_CHARS} characters`),
+  }),
+])
+
+// Request body of /api/chat, without the checks that depend on the model catalog
+export const chatRequestSchema = z
+  .object({
+    messages: z
+      .array(chatMessageSchema)
+      .min(1, "At least one message is required")
+      .max(MAX_CHAT_MESSAGES, `A conversation can have at most ${MAX_CHAT_MESSAGES} messages`)
+      .refine((messages) => messages[messages.length - 1]?.role === "user", "The last message must be from the user")
+      .superRefine((messages, ctx) => {
+        // A user message may be only attachments or images, but not nothing at all
+        messages.forEach((message, index) => {
+          if (message.role !== "user" || message.content) return
+          if (!message.attachments?.length && !message.images?.length) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "content"], message: "Message cannot be empty" })
+          }
+        })
+      }),
+    model: z.string().min(1).default(DEFAULT_MODEL_ID),
+    params: generationParamsSchema.default({}),
+    fallback: z.boolean().default(true),
+    // Answer from the knowledge base, citing the passages it retrieves
+    knowledge: z.boolean().default(false),
+    // Let the model call the server's tools (see lib/tools)
+    tools: z.boolean().default(false),
+  })
+  .strict()
+
+export type ChatRequestInput = z.input<typeof chatRequestSchema>
+export type ChatRequest = z.output<typeof chatRequestSchema>
+
+/**
+ * The /api/chat request schema for a model catalog: the model has to be a chat
+ * or text-to-image model from `models` that can read every input in the
+ * conversation (images need a vision model) and call tools when they are
+ * asked for, and each parameter has to be within that model's range.
+ */
+export function createChatRequestSchema(models: ModelInfo[]) {
+  return chatRequestSchema.superRefine((request, ctx) => {
+    const model = findModel(models, request.model)
+    if (!model || (model.task !== "text-generation" && model.task !== "text-to-image")) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["model"], message: `Unknown chat model "${request.model}"` })
+      return
+    }
+    if (!getRequiredInputs(request.messages).every((input) => model.inputs.includes(input))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["model"], message: `${model.name} cannot read images` })
+    }
+    if (request.tools && !model.tools) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tools"], message: `${model.name} cannot call tools` })
+    }
+
+    for (const [name, message] of Object.entries(validateGenerationParams(request.params, model))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["params", name], message })
+    }
+  })
+}
+
+// Request body of /api/speech; the model defaults to the catalog's first text-to-speech model
+export const speechRequestSchema = z
+  .object({
+    text: z
+      .string()
+      .trim()
+      .min(1, "Text is required")
+      .max(MAX_SPEECH_CHARS, `Text must be at most ${MAX_SPEECH_CHARS} characters`),
+    model: z.string().min(1).optional(),
+  })
+  .strict()
+
+export const loginSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+})
+
+// Request body of the OpenAI-compatible /api/v1/chat/completions route; unknown fields are ignored
+const openAIContentSchema = z.union([
+  z.string(),
+  z.array(z.object({ type: z.string(), text: z.string().optional() }).passthrough()),
+  z.null(),
+])
+
+// Helper function to measure the text of a message's content, whether a string or an array of parts
+function openAIContentLength(content: z.infer<typeof openAIContentSchema> | undefined): number {
+  if (typeof content === "string") return content.length
+  return (content || []).reduce((length, part) => length + (part.text?.length ?? 0), 0)
+}
+
+export const openAIChatCompletionSchema = z.object({
+  model: z.string().min(1),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["system", "developer", "user", "assistant", "tool"]),
+        content: openAIContentSchema.optional(),
+      }),
+    )
+    .min(1)
+    .max(MAX_CHAT_MESSAGES, `A conversation can have at most ${MAX_CHAT_MESSAGES} messages`)
+    .superRefine((messages, ctx) => {
+      // The same limits as /api/chat: prompts up to MAX_INPUT_CHARS, everything else up to MAX_REPLY_CHARS
+      messages.forEach(({ role, content }, index) => {
+        const limit = role === "user" ? MAX_INPUT_CHARS : MAX_REPLY_CHARS
+        if (openAIContentLength(content) <= limit) return
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "content"],
+          message: `Message must be at most ${limit} characters`,
+        })
+      })
+    }),
+  stream: z.boolean().nullish(),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).nullish(),
+  temperature: z.number().nullish(),
+  max_tokens: z.number().int().nullish(),
+  max_completion_tokens: z.number().int().nullish(),
+  top_p: z.number().nullish(),
+  top_k: z.number().int().nullish(),
+  repetition_penalty: z.number().nullish(),
+  seed: z.number().int().nullish(),
+})
+
+export type OpenAIChatCompletionInput = z.infer<typeof openAIChatCompletionSchema>
+
+// The /api/v1/chat/completions request schema for a model catalog: the model has to be a chat model from `models`
+export function createOpenAIChatCompletionSchema(models: ModelInfo[]) {
+  return openAIChatCompletionSchema.superRefine((request, ctx) => {
+    const model = findModel(models, request.model)
+    if (!model || model.task !== "text-generation") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["model"], message: `Unknown chat model "${request.model}"` })
+    }
+  })
+}
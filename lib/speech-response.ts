@@ -0,0 +1,70 @@
+import { UnsupportedResponseError, UpstreamResponseError, type ResponseAdapter } from "@/lib/adapters"
+
+/**
+ * Reading speech model responses. Transcripts come back as JSON (`{ result:
+ * { text } }` from Workers AI, `{ text }` from OpenAI-style servers). Speech
+ * comes back as raw audio bytes or as JSON with base64 audio (`{ result:
+ * { audio } }` from MeloTTS); like generated images, the bytes are sniffed
+ * rather than trusting the content type.
+ */
+
+// Helper function to recognize an audio format from its first bytes
+function sniffAudioType(bytes: Buffer): string | undefined {
+  const head = bytes.subarray(0, 4).toString("latin1")
+  if (head.startsWith("ID3") || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return "audio/mpeg"
+  if (head === "RIFF" && bytes.subarray(8, 12).toString("latin1") === "WAVE") return "audio/wav"
+  if (head === "OggS") return "audio/ogg"
+  if (head === "fLaC") return "audio/flac"
+  return undefined
+}
+
+// Helper function to parse a JSON response body, rejecting anything else
+function parseJson(bytes: Buffer, response: Response, expected: string): unknown {
+  try {
+    return JSON.parse(bytes.toString("utf8"))
+  } catch {
+    const contentType = response.headers.get("content-type") || "unknown content type"
+    throw new UnsupportedResponseError(`The backend did not return ${expected} (${contentType})`)
+  }
+}
+
+/**
+ * Read a speech-to-text response into its transcript. Throws
+ * `UpstreamResponseError` for error payloads and `UnsupportedResponseError`
+ * when the response holds no transcript.
+ */
+export async function readTranscript(response: Response, adapter: ResponseAdapter): Promise<string> {
+  const data: any = parseJson(Buffer.from(await response.arrayBuffer()), response, "a transcript")
+  const error = adapter.readError(data)
+  if (error) throw new UpstreamResponseError(error)
+
+  const text = data?.result?.text ?? data?.text
+  if (typeof text !== "string") throw new UnsupportedResponseError("The backend response did not contain a transcript")
+  return text.trim()
+}
+
+/**
+ * Read a text-to-speech response into audio bytes and their MIME type. Throws
+ * `UpstreamResponseError` for error payloads and `UnsupportedResponseError`
+ * when the response holds no recognizable audio.
+ */
+export async function readSpeech(
+  response: Response,
+  adapter: ResponseAdapter,
+): Promise<{ audio: Buffer; mimeType: string }> {
+  let audio = Buffer.from(await response.arrayBuffer())
+  let mimeType = sniffAudioType(audio)
+
+  if (!mimeType) {
+    const data: any = parseJson(audio, response, "audio")
+    const error = adapter.readError(data)
+    if (error) throw new UpstreamResponseError(error)
+
+    const base64 = [data?.result?.audio, data?.audio].find((value) => typeof value === "string")
+    audio = Buffer.from((base64 || "").replace(/^data:[^;]+;base64,/, ""), "base64")
+    mimeType = sniffAudioType(audio)
+    if (!mimeType) throw new UnsupportedResponseError("The backend response did not contain audio")
+  }
+
+  return { audio, mimeType }
+}
@@ -0,0 +1,31 @@
+/**
+ * Voice input and spoken replies. The composer records audio in the browser
+ * and `/api/transcribe` turns it into text with a speech-to-text model;
+ * `/api/speech` reads a reply aloud with a text-to-speech model. When no
+ * text-to-speech model is available, the browser's own speech synthesis
+ * reads the reply instead.
+ */
+
+// Largest recording accepted for transcription (about 10 minutes of Opus audio)
+export const MAX_AUDIO_BYTES = 10 * 1024 * 1024
+// Longest text sent to a text-to-speech model; longer replies are read by the browser
+export const MAX_SPEECH_CHARS = 2000
+
+// Reduce a Markdown reply to the words worth reading aloud
+export function toSpeechText(markdown: string): string {
+  return (
+    markdown
+      // Code blocks and images are skipped; links and inline code keep their text
+      .replace(/```[\s\S]*?(```|$)/g, " ")
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/`([^`]*)`/g, "$1")
+      // Headings, quotes, list markers, table pipes and emphasis
+      .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+      .replace(/^\s*\|?[-:| ]+\|?\s*$/gm, "")
+      .replace(/\|/g, " ")
+      .replace(/(\*\*|__|\*|_|~~)(\S[\s\S]*?)\1/g, "$2")
+      .replace(/\s+/g, " ")
+      .trim()
+  )
+}
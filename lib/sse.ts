@@ -0,0 +1,47 @@
+const encoder = new TextEncoder()
+
+// Encode a single Server-Sent Events message carrying a JSON payload
+export function encodeSSE(data: unknown): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(data)}\n\n`)
+}
+
+// The `[DONE]` sentinel that ends an OpenAI-style event stream
+export function encodeSSEDone(): Uint8Array {
+  return encoder.encode("data: [DONE]\n\n")
+}
+
+/**
+ * Read a Server-Sent Events stream and yield the `data:` payload of each event as
+ * soon as it is complete. Multi-line data fields are joined with newlines, as the
+ * SSE spec requires; comments and other fields are ignored.
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      // Events are separated by a blank line; keep the trailing partial event in the buffer
+      const events = buffer.split(/\r?\n\r?\n/)
+      buffer = done ? "" : events.pop() || ""
+
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).replace(/^ /, ""))
+        if (data.length > 0) {
+          yield data.join("\n")
+        }
+      }
+
+      if (done) break
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,120 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+import type { Message } from "@/lib/types"
+import { conversationIdSchema, type CreateConversationInput, type UpdateConversationInput } from "@/lib/schemas"
+import {
+  appendMessageNode,
+  compareConversations,
+  isOwnedBy,
+  newConversation,
+  toConversation,
+  toSummary,
+  type ConversationStore,
+  type StoredConversation,
+} from "@/lib/storage/types"
+
+/**
+ * File-based conversation store for self-hosting: one JSON file per conversation
+ * in `directory`. Writes go through a temporary file and a rename so a crash
+ * never leaves a half-written conversation behind.
+ */
+export function createFileStore(directory: string): ConversationStore {
+  // Serialize mutations so concurrent appends cannot overwrite each other
+  let queue: Promise<unknown> = Promise.resolve()
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task)
+    queue = result.catch(() => undefined)
+    return result
+  }
+
+  const filePath = (id: string) => path.join(directory, `${id}.json`)
+
+  async function read(id: string): Promise<StoredConversation | null> {
+    if (!conversationIdSchema.safeParse(id).success) return null
+    try {
+      return JSON.parse(await fs.readFile(filePath(id), "utf8")) as StoredConversation
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+      throw error
+    }
+  }
+
+  // Helper function to read a conversation of the given owner
+  async function find(ownerId: string, id: string): Promise<StoredConversation | null> {
+    const conversation = await read(id)
+    return isOwnedBy(conversation, ownerId) ? conversation : null
+  }
+
+  async function write(conversation: StoredConversation): Promise<void> {
+    await fs.mkdir(directory, { recursive: true })
+    const tempPath = `${filePath(conversation.id)}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(conversation, null, 2), "utf8")
+    await fs.rename(tempPath, filePath(conversation.id))
+  }
+
+  return {
+    async list(ownerId: string) {
+      let files: string[]
+      try {
+        files = await fs.readdir(directory)
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+        throw error
+      }
+
+      const conversations = await Promise.all(
+        files.filter((file) => file.endsWith(".json")).map((file) => read(file.slice(0, -".json".length))),
+      )
+      return conversations
+        .filter((conversation): conversation is StoredConversation => isOwnedBy(conversation, ownerId))
+        .map(toSummary)
+        .sort(compareConversations)
+    },
+
+    async get(ownerId: string, id: string) {
+      const conversation = await find(ownerId, id)
+      return conversation && toConversation(conversation)
+    },
+
+    create(ownerId: string, input: CreateConversationInput) {
+      return enqueue(async () => {
+        // Checked inside the queue so two requests for the same id cannot both pass
+        if (input.id && (await read(input.id))) return null
+        const conversation = newConversation(ownerId, input)
+        await write(conversation)
+        return toConversation(conversation)
+      })
+    },
+
+    update(ownerId: string, id: string, changes: UpdateConversationInput) {
+      return enqueue(async () => {
+        const current = await find(ownerId, id)
+        if (!current) return null
+
+        const updated = { ...current, ...changes, updatedAt: changes.updatedAt ?? Date.now() }
+        await write(updated)
+        return toConversation(updated)
+      })
+    },
+
+    delete(ownerId: string, id: string) {
+      return enqueue(async () => {
+        if (!(await find(ownerId, id))) return false
+        await fs.unlink(filePath(id))
+        return true
+      })
+    },
+
+    appendMessage(ownerId: string, id: string, message: Message) {
+      return enqueue(async () => {
+        const current = await find(ownerId, id)
+        if (!current) return null
+
+        const updated = appendMessageNode(current, message)
+        await write(updated)
+        return toConversation(updated)
+      })
+    },
+  }
+}
@@ -0,0 +1,32 @@
+import path from "path"
+
+import { createFileStore } from "@/lib/storage/file"
+import { createMemoryStore } from "@/lib/storage/memory"
+import type { ConversationStore } from "@/lib/storage/types"
+
+export type { ConversationStore, ConversationSummary } from "@/lib/storage/types"
+export { createFileStore, createMemoryStore }
+
+// Next.js bundles each route separately; keeping the store on globalThis lets every conversation route share it,
+// which the memory store needs to be useful and the file store needs so its writes stay queued in one place
+const globalStore = globalThis as typeof globalThis & { __conversationStore?: ConversationStore }
+
+/**
+ * Return the conversation store selected by `CONVERSATION_STORE` ("file" or
+ * "memory", default "file"). The file store writes to `CONVERSATION_STORE_DIR`,
+ * which defaults to `.data/conversations` in the project root.
+ */
+export function getConversationStore(): ConversationStore {
+  if (!globalStore.__conversationStore) {
+    const kind = process.env.CONVERSATION_STORE || "file"
+    if (kind === "memory") {
+      globalStore.__conversationStore = createMemoryStore()
+    } else if (kind === "file") {
+      const directory = process.env.CONVERSATION_STORE_DIR || path.join(process.cwd(), ".data", "conversations")
+      globalStore.__conversationStore = createFileStore(directory)
+    } else {
+      throw new Error(`Unknown CONVERSATION_STORE "${kind}" (expected "file" or "memory")`)
+    }
+  }
+  return globalStore.__conversationStore
+}
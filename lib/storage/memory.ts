@@ -0,0 +1,66 @@
+import type { Message } from "@/lib/types"
+import type { CreateConversationInput, UpdateConversationInput } from "@/lib/schemas"
+import {
+  appendMessageNode,
+  compareConversations,
+  isOwnedBy,
+  newConversation,
+  toConversation,
+  toSummary,
+  type ConversationStore,
+  type StoredConversation,
+} from "@/lib/storage/types"
+
+// In-memory conversation store, for tests and throwaway deployments
+export function createMemoryStore(): ConversationStore {
+  const conversations = new Map<string, StoredConversation>()
+
+  // Helper function to find a conversation of the given owner
+  const find = (ownerId: string, id: string) => {
+    const conversation = conversations.get(id)
+    return conversation && isOwnedBy(conversation, ownerId) ? conversation : null
+  }
+
+  return {
+    async list(ownerId: string) {
+      return [...conversations.values()]
+        .filter((conversation) => isOwnedBy(conversation, ownerId))
+        .map(toSummary)
+        .sort(compareConversations)
+    },
+
+    async get(ownerId: string, id: string) {
+      const conversation = find(ownerId, id)
+      return conversation && toConversation(conversation)
+    },
+
+    async create(ownerId: string, input: CreateConversationInput) {
+      if (input.id && conversations.has(input.id)) return null
+      const conversation = newConversation(ownerId, input)
+      conversations.set(conversation.id, conversation)
+      return toConversation(conversation)
+    },
+
+    async update(ownerId: string, id: string, changes: UpdateConversationInput) {
+      const current = find(ownerId, id)
+      if (!current) return null
+
+      const updated = { ...current, ...changes, updatedAt: changes.updatedAt ?? Date.now() }
+      conversations.set(id, updated)
+      return toConversation(updated)
+    },
+
+    async delete(ownerId: string, id: string) {
+      return !!find(ownerId, id) && conversations.delete(id)
+    },
+
+    async appendMessage(ownerId: string, id: string, message: Message) {
+      const current = find(ownerId, id)
+      if (!current) return null
+
+      const updated = appendMessageNode(current, message)
+      conversations.set(id, updated)
+      return toConversation(updated)
+    },
+  }
+}
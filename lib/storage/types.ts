@@ -0,0 +1,78 @@
+import type { Conversation, Message } from "@/lib/types"
+import { getDefaultLeaf, normalizeTree } from "@/lib/message-tree"
+import type { CreateConversationInput, UpdateConversationInput } from "@/lib/schemas"
+
+// Conversation without its messages, as returned by list()
+export type ConversationSummary = Omit<Conversation, "messages"> & { messageCount: number }
+
+// A conversation as stored, with the id of the user it belongs to (`AuthUser.id`)
+export type StoredConversation = Conversation & { ownerId?: string }
+
+/**
+ * Server-side conversation storage. Every operation is scoped to an owner, the
+ * id of the signed-in user: conversations of other owners, and ones stored
+ * without an owner, behave as if they did not exist. Implementations return
+ * `null` (or `false` for delete) when the conversation does not exist, and
+ * `create` returns `null` when the requested id is already taken by anyone.
+ */
+export interface ConversationStore {
+  list(ownerId: string): Promise<ConversationSummary[]>
+  get(ownerId: string, id: string): Promise<Conversation | null>
+  create(ownerId: string, input: CreateConversationInput): Promise<Conversation | null>
+  update(ownerId: string, id: string, changes: UpdateConversationInput): Promise<Conversation | null>
+  delete(ownerId: string, id: string): Promise<boolean>
+  appendMessage(ownerId: string, id: string, message: Message): Promise<Conversation | null>
+}
+
+// Helper function to check that a stored conversation belongs to the caller
+export function isOwnedBy(conversation: StoredConversation | undefined | null, ownerId: string): boolean {
+  return !!conversation?.ownerId && conversation.ownerId === ownerId
+}
+
+// Helper function to drop the owner from a stored conversation before it is returned
+export function toConversation({ ownerId, ...conversation }: StoredConversation): Conversation {
+  return conversation
+}
+
+export function toSummary({ messages, ownerId, ...conversation }: StoredConversation): ConversationSummary {
+  return { ...conversation, messageCount: messages.length }
+}
+
+// Helper function to build a new conversation record from create input
+export function newConversation(ownerId: string, input: CreateConversationInput): StoredConversation {
+  const now = Date.now()
+  return {
+    ownerId,
+    id: input.id || crypto.randomUUID(),
+    title: input.title || "New conversation",
+    pinned: input.pinned ?? false,
+    model: input.model,
+    params: input.params,
+    messages: input.messages || [],
+    currentLeafId: input.currentLeafId,
+    createdAt: input.createdAt ?? now,
+    updatedAt: input.updatedAt ?? now,
+  }
+}
+
+// Conversations listed pinned first, then most recently updated
+export function compareConversations(a: ConversationSummary, b: ConversationSummary): number {
+  return Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt
+}
+
+/**
+ * Append a message node. Without an explicit `parentId` it continues the branch
+ * being shown; either way it becomes the conversation's current leaf.
+ */
+export function appendMessageNode<T extends Conversation>(conversation: T, message: Message): T {
+  const messages = normalizeTree(conversation.messages)
+  const parentId =
+    message.parentId !== undefined ? message.parentId : (conversation.currentLeafId ?? getDefaultLeaf(messages))
+
+  return {
+    ...conversation,
+    messages: [...messages, { ...message, parentId }],
+    currentLeafId: message.id,
+    updatedAt: Date.now(),
+  }
+}
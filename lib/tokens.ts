@@ -0,0 +1,105 @@
+import type { Usage } from "@/lib/adapters"
+import { withAttachments } from "@/lib/attachments"
+import type { Message, MessageUsage } from "@/lib/types"
+
+/**
+ * Token estimates for when the backend does not report usage. They approximate
+ * a BPE tokenizer: short words are one token, longer words about one token per
+ * four letters, numbers one per three digits, and each CJK character or
+ * punctuation mark one token. Expect them to be within about 20% of real counts.
+ */
+
+// Context window assumed for models missing from the catalog
+export const DEFAULT_CONTEXT_WINDOW = 4096
+
+// Tokens each chat message costs on top of its content (role markers and separators)
+const MESSAGE_TOKEN_OVERHEAD = 4
+// Rough cost of one image; vision models turn an image into several hundred to a few thousand tokens
+export const IMAGE_TOKEN_ESTIMATE = 1000
+
+const TOKEN_PIECE = /\p{L}+|\p{N}+|[^\s\p{L}\p{N}]/gu
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/u
+
+export function estimateTokens(text: string): number {
+  let tokens = 0
+  for (const piece of text.match(TOKEN_PIECE) || []) {
+    if (CJK.test(piece)) tokens += piece.length
+    else if (/^\p{N}/u.test(piece)) tokens += Math.ceil(piece.length / 3)
+    else if (/^\p{L}/u.test(piece)) tokens += Math.ceil(piece.length / 4)
+    else tokens += 1
+  }
+  return tokens
+}
+
+// Estimated cost of one chat message with `imageCount` images, including its formatting
+export function estimateMessageTokens(content: string, imageCount = 0): number {
+  return estimateTokens(content) + imageCount * IMAGE_TOKEN_ESTIMATE + MESSAGE_TOKEN_OVERHEAD
+}
+
+// Estimated prompt size of a conversation sent with an optional system prompt
+export function estimatePromptTokens(
+  messages: Pick<Message, "content" | "attachments" | "images">[],
+  systemPrompt?: string,
+): number {
+  const system = systemPrompt?.trim() ? estimateMessageTokens(systemPrompt) : 0
+  return messages.reduce(
+    (total, message) => total + estimateMessageTokens(withAttachments(message), message.images?.length),
+    system,
+  )
+}
+
+/**
+ * Token usage of a reply: the counts the backend reported when it reported
+ * both, otherwise estimates from the prompt and the reply text.
+ */
+export function resolveUsage(
+  reported: Usage | undefined,
+  history: Pick<Message, "content" | "attachments" | "images" | "error">[],
+  content: string,
+  systemPrompt?: string,
+): MessageUsage {
+  if (reported?.promptTokens !== undefined && reported.completionTokens !== undefined) {
+    return { promptTokens: reported.promptTokens, completionTokens: reported.completionTokens }
+  }
+  return {
+    promptTokens: estimatePromptTokens(history.filter((message) => !message.error), systemPrompt),
+    completionTokens: estimateTokens(content),
+    estimated: true,
+  }
+}
+
+// Tokens a single message adds to the conversation, and whether the count is an estimate
+export function getMessageTokens(message: Message): { tokens: number; estimated: boolean } {
+  if (message.usage) return { tokens: message.usage.completionTokens, estimated: !!message.usage.estimated }
+  const images = (message.images?.length || 0) * IMAGE_TOKEN_ESTIMATE
+  return { tokens: estimateTokens(withAttachments(message)) + images, estimated: true }
+}
+
+/**
+ * How much of the context window the next request would use: the conversation
+ * so far plus the unsent draft (with its attachments, see withAttachments). The
+ * last reported usage anchors the count, so only the messages after it are estimated.
+ */
+export function countContextTokens(messages: Message[], systemPrompt?: string, draft = ""): number {
+  const thread = messages.filter((message) => !message.error)
+  let anchor = -1
+  for (let index = thread.length - 1; index >= 0; index--) {
+    if (thread[index].usage && !thread[index].usage?.estimated) {
+      anchor = index
+      break
+    }
+  }
+
+  const anchorUsage = thread[anchor]?.usage
+  const used = anchorUsage
+    ? anchorUsage.promptTokens + anchorUsage.completionTokens + estimatePromptTokens(thread.slice(anchor + 1))
+    : estimatePromptTokens(thread, systemPrompt)
+  return used + (draft.trim() ? estimateMessageTokens(draft) : 0)
+}
+
+// Compact token count for labels, e.g. 950, 12.3k or 1.2M
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens)
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`
+  return `${(tokens / 1_000_000).toFixed(1)}M`
+}
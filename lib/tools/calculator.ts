@@ -0,0 +1,135 @@
+import { z } from "zod"
+
+import { defineTool, ToolError } from "@/lib/tools/types"
+
+const MAX_EXPRESSION_CHARS = 500
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E }
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  exp: Math.exp,
+  // Natural logarithm; log is base 10
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  pow: Math.pow,
+  min: Math.min,
+  max: Math.max,
+}
+
+// Helper function to split an expression into numbers, names and operators
+function tokenize(expression: string): string[] {
+  const tokens = expression.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_]\w*|\*\*|[-+*/%^(),]|\S/gi) || []
+  const invalid = tokens.find((token) => !/^(?:[\d.]|[a-z_]|\*\*|[-+*/%^(),])/i.test(token))
+  if (invalid) throw new ToolError(`Unexpected "${invalid}" in the expression`)
+  return tokens
+}
+
+/**
+ * Evaluate an arithmetic expression without running any code: numbers,
+ * + - * / % and ^ (or **), parentheses, the constants pi and e, and the
+ * functions in FUNCTIONS. Throws a ToolError for anything else.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression)
+  let position = 0
+  const peek = () => tokens[position]
+  const expect = (token: string) => {
+    if (tokens[position] !== token) throw new ToolError(`Expected "${token}" in the expression`)
+    position++
+  }
+
+  // expression := term (("+" | "-") term)*
+  const parseExpression = (): number => {
+    let value = parseTerm()
+    while (peek() === "+" || peek() === "-") {
+      value = tokens[position++] === "+" ? value + parseTerm() : value - parseTerm()
+    }
+    return value
+  }
+
+  // term := unary (("*" | "/" | "%") unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary()
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const operator = tokens[position++]
+      const right = parseUnary()
+      value = operator === "*" ? value * right : operator === "/" ? value / right : value % right
+    }
+    return value
+  }
+
+  // unary := ("-" | "+") unary | power; so -2^2 is -(2^2)
+  const parseUnary = (): number => {
+    if (peek() === "-" || peek() === "+") return tokens[position++] === "-" ? -parseUnary() : parseUnary()
+    return parsePower()
+  }
+
+  // power := primary (("^" | "**") unary)?, which makes powers right-associative
+  const parsePower = (): number => {
+    const base = parsePrimary()
+    if (peek() !== "^" && peek() !== "**") return base
+    position++
+    return Math.pow(base, parseUnary())
+  }
+
+  // primary := number | constant | function "(" arguments ")" | "(" expression ")"
+  const parsePrimary = (): number => {
+    const token = tokens[position++]
+    if (token === undefined) throw new ToolError("The expression ends too early")
+    if (token === "(") {
+      const value = parseExpression()
+      expect(")")
+      return value
+    }
+    if (/^[\d.]/.test(token)) return Number(token)
+
+    const name = token.toLowerCase()
+    if (name in CONSTANTS) return CONSTANTS[name]
+    const fn = FUNCTIONS[name]
+    if (!fn) throw new ToolError(`Unknown name "${token}" in the expression`)
+    expect("(")
+    const args = [parseExpression()]
+    while (peek() === ",") {
+      position++
+      args.push(parseExpression())
+    }
+    expect(")")
+    return fn(...args)
+  }
+
+  const value = parseExpression()
+  if (position < tokens.length) throw new ToolError(`Unexpected "${tokens[position]}" in the expression`)
+  return value
+}
+
+export const calculatorTool = defineTool({
+  name: "calculator",
+  description:
+    "Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and the functions " +
+    `${Object.keys(FUNCTIONS).join(", ")} (log is base 10, ln is natural). Use it for any calculation.`,
+  parameters: {
+    type: "object",
+    properties: { expression: { type: "string", description: "The expression, e.g. (3.5 * 12) ^ 2 / sqrt(7)" } },
+    required: ["expression"],
+  },
+  schema: z.object({ expression: z.string().trim().min(1).max(MAX_EXPRESSION_CHARS) }),
+  async run({ expression }) {
+    const value = evaluateExpression(expression)
+    if (!Number.isFinite(value)) throw new ToolError("The result is not a finite number")
+    // Drop floating-point noise such as 0.1 + 0.2 = 0.30000000000000004
+    return `${expression} = ${Number(value.toPrecision(12))}`
+  },
+})
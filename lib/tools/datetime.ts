@@ -0,0 +1,31 @@
+import { z } from "zod"
+
+import { defineTool, ToolError } from "@/lib/tools/types"
+
+export const dateTimeTool = defineTool({
+  name: "get_current_time",
+  description:
+    "Get the current date, time and weekday, in UTC or in an IANA time zone such as Europe/Paris. " +
+    "Use it whenever the answer depends on today's date or the time.",
+  parameters: {
+    type: "object",
+    properties: {
+      timeZone: { type: "string", description: "IANA time zone, e.g. America/New_York; UTC when omitted" },
+    },
+  },
+  schema: z.object({ timeZone: z.string().trim().max(100).optional() }),
+  async run({ timeZone = "UTC" }) {
+    const now = new Date()
+    let formatted: string
+    try {
+      formatted = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        dateStyle: "full",
+        timeStyle: "long",
+      }).format(now)
+    } catch {
+      throw new ToolError(`Unknown time zone "${timeZone}"`)
+    }
+    return `${formatted} (${timeZone}); ISO 8601 UTC: ${now.toISOString()}`
+  },
+})
@@ -0,0 +1,97 @@
+import { z } from "zod"
+
+import { defineTool, ToolError } from "@/lib/tools/types"
+
+// How long to wait for a page, how large a page may be, and how much of its text the model is given
+const FETCH_TIMEOUT_MS = 10000
+const MAX_PAGE_BYTES = 2 * 1024 * 1024
+const MAX_PAGE_CHARS = 8000
+
+const HTML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " }
+
+// Helper function to reduce an HTML page to its readable text
+function htmlToText(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|svg|template)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<(br|\/p|\/div|\/li|\/tr|\/h[1-6]|\/section|\/article)\b[^>]*>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] !== "#") return HTML_ENTITIES[code.toLowerCase()] ?? entity
+      const codePoint = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity
+    })
+    .replace(/[ \t\f\v]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim()
+}
+
+// The proxy the tool fetches through; the tool is only offered when one is configured
+function getFetchProxy(): string | undefined {
+  return process.env.TOOL_FETCH_PROXY || undefined
+}
+
+/**
+ * Fetch a web page through the proxy in TOOL_FETCH_PROXY, whose `{url}` is
+ * replaced by the encoded page URL. The server never fetches pages itself, so
+ * the proxy decides which hosts are reachable.
+ */
+export const fetchUrlTool = defineTool({
+  name: "fetch_url",
+  description:
+    "Fetch a web page or text file over HTTP(S) and return its text, cut off at " +
+    `${MAX_PAGE_CHARS} characters. Use it to read a page the user mentions or to look up current information.`,
+  parameters: {
+    type: "object",
+    properties: { url: { type: "string", description: "Absolute http or https URL" } },
+    required: ["url"],
+  },
+  schema: z.object({
+    url: z
+      .string()
+      .trim()
+      .url()
+      .refine((url) => /^https?:$/.test(new URL(url).protocol), "Only http and https URLs can be fetched"),
+  }),
+  isAvailable: () => !!getFetchProxy(),
+  async run({ url }, { upstream, deadline, log }) {
+    const proxy = getFetchProxy()
+    if (!proxy) throw new ToolError("Fetching URLs is not configured on this server")
+
+    // The fetch has its own timeout on top of the client's cancellation, cut short by the request's deadline
+    const timeoutMs = deadline === undefined ? FETCH_TIMEOUT_MS : Math.min(FETCH_TIMEOUT_MS, deadline - Date.now())
+    if (timeoutMs <= 0) throw new ToolError(`There is no time left to fetch ${url}`)
+    const attempt = new AbortController()
+    const abortAttempt = () => attempt.abort()
+    upstream.signal.addEventListener("abort", abortAttempt)
+    const timer = setTimeout(abortAttempt, timeoutMs)
+
+    try {
+      const response = await fetch(proxy.replace("{url}", encodeURIComponent(url)), {
+        headers: { Accept: "text/html, text/plain, application/json;q=0.9, */*;q=0.1" },
+        signal: attempt.signal,
+      })
+      log.debug("Fetched URL for a tool call", { url, status: response.status })
+      if (!response.ok) throw new ToolError(`Fetching ${url} failed with HTTP ${response.status}`)
+      if (Number(response.headers.get("content-length")) > MAX_PAGE_BYTES) {
+        throw new ToolError(`${url} is too large to read`)
+      }
+
+      const contentType = response.headers.get("content-type") || ""
+      if (!/^(text\/|application\/(json|xml|xhtml\+xml))/.test(contentType) && contentType) {
+        throw new ToolError(`${url} is not a text page (${contentType.split(";")[0]})`)
+      }
+      const body = await response.text()
+      const text = contentType.includes("html") ? htmlToText(body) : body.trim()
+      if (!text) return `${url} has no readable text`
+      return text.length > MAX_PAGE_CHARS ? `${text.slice(0, MAX_PAGE_CHARS)}\n[cut off]` : text
+    } catch (error) {
+      if (error instanceof ToolError || upstream.signal.aborted) throw error
+      if (attempt.signal.aborted) throw new ToolError(`No response from ${url} within ${Math.ceil(timeoutMs / 1000)}s`)
+      throw new ToolError(`Could not fetch ${url}: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      clearTimeout(timer)
+      upstream.signal.removeEventListener("abort", abortAttempt)
+    }
+  },
+})
@@ -0,0 +1,62 @@
+import { calculatorTool } from "@/lib/tools/calculator"
+import { dateTimeTool } from "@/lib/tools/datetime"
+import { fetchUrlTool } from "@/lib/tools/fetch-url"
+import { knowledgeSearchTool } from "@/lib/tools/knowledge-search"
+import { ToolError, type BackendTool, type ToolCall, type ToolContext, type ToolDefinition } from "@/lib/tools/types"
+import type { ToolStep } from "@/lib/types"
+
+export type { BackendTool, ToolCall, ToolContext, ToolDefinition, ToolExchangeMessage } from "@/lib/tools/types"
+export { defineTool, ToolError } from "@/lib/tools/types"
+
+// Every tool a model can be offered, in the order they are listed to it
+export const TOOLS: ToolDefinition<any>[] = [calculatorTool, dateTimeTool, fetchUrlTool, knowledgeSearchTool]
+
+// The tools the server is set up for
+export function getAvailableTools(): ToolDefinition<any>[] {
+  return TOOLS.filter((tool) => !tool.isAvailable || tool.isAvailable())
+}
+
+// Describe tools to the model
+export function toBackendTools(tools: ToolDefinition<any>[]): BackendTool[] {
+  return tools.map(({ name, description, parameters }) => ({
+    type: "function",
+    function: { name, description, parameters },
+  }))
+}
+
+/**
+ * Run a tool call with checked arguments. Failures are returned as the
+ * step's `error` rather than thrown, so the model can read them and try
+ * again; only a cancelled request throws.
+ */
+export async function runToolCall(
+  call: ToolCall,
+  tools: ToolDefinition<any>[],
+  context: ToolContext,
+): Promise<ToolStep> {
+  const step: ToolStep = { id: call.id, name: call.name, arguments: call.arguments }
+  const tool = tools.find(({ name }) => name === call.name)
+  if (!tool) return { ...step, error: `There is no tool named "${call.name}"` }
+
+  const args = tool.schema.safeParse(call.arguments)
+  if (!args.success) {
+    const issue = args.error.issues[0]
+    const field = issue.path.length ? `${issue.path.join(".")}: ` : ""
+    return { ...step, error: `Invalid arguments: ${field}${issue.message}` }
+  }
+
+  const startedAt = Date.now()
+  try {
+    const result = await tool.run(args.data, context)
+    context.log.info("Tool call finished", { tool: tool.name, durationMs: Date.now() - startedAt })
+    return { ...step, result }
+  } catch (error) {
+    if (context.upstream.signal.aborted) throw error
+    if (error instanceof ToolError) {
+      context.log.info("Tool call rejected", { tool: tool.name, reason: error.message })
+      return { ...step, error: error.message }
+    }
+    context.log.error("Tool call failed", { tool: tool.name, error })
+    return { ...step, error: "The tool failed unexpectedly" }
+  }
+}
@@ -0,0 +1,22 @@
+import { z } from "zod"
+
+import { retrieveSources } from "@/lib/knowledge/retrieval"
+import { defineTool } from "@/lib/tools/types"
+
+export const knowledgeSearchTool = defineTool({
+  name: "search_knowledge_base",
+  description:
+    "Search the documents the user added to the knowledge base and return the most relevant passages with " +
+    "their document names. Use it for questions about the user's own documents, notes or files.",
+  parameters: {
+    type: "object",
+    properties: { query: { type: "string", description: "What to look for, phrased as a question or keywords" } },
+    required: ["query"],
+  },
+  schema: z.object({ query: z.string().trim().min(1).max(1000) }),
+  async run({ query }, context) {
+    const sources = await retrieveSources(query, context)
+    if (sources.length === 0) return "No passages in the knowledge base match the query"
+    return sources.map((source) => `From ${source.documentName}:\n${source.text}`).join("\n\n")
+  },
+})
@@ -0,0 +1,27 @@
+/**
+ * How tool steps are described in the chat and in exports. Kept apart from the
+ * registry in lib/tools so the browser can use it without the tools' server code.
+ */
+
+const TOOL_LABELS: Record<string, string> = {
+  calculator: "Calculator",
+  get_current_time: "Date and time",
+  fetch_url: "Fetch URL",
+  search_knowledge_base: "Knowledge base search",
+}
+
+const PREVIEW_CHARS = 80
+
+export function getToolLabel(name: string): string {
+  return TOOL_LABELS[name] || name
+}
+
+// Summarize a call's arguments on one line, e.g. the expression or URL
+export function describeToolArguments(args: unknown): string {
+  const values =
+    args && typeof args === "object" && !Array.isArray(args)
+      ? Object.values(args).filter((value) => typeof value === "string" || typeof value === "number")
+      : [args]
+  const preview = values.map(String).join(", ").replace(/\s+/g, " ").trim()
+  return preview.length > PREVIEW_CHARS ? `${preview.slice(0, PREVIEW_CHARS)}…` : preview
+}
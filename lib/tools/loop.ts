@@ -0,0 +1,110 @@
+import type { Usage } from "@/lib/adapters"
+import {
+  readBufferedResponse,
+  requestCompletion,
+  type CompletionEvent,
+  type CompletionRequest,
+  type CompletionResponse,
+} from "@/lib/chat-backend"
+import { UpstreamError } from "@/lib/errors"
+import { runToolCall, toBackendTools } from "@/lib/tools"
+import type { ToolDefinition, ToolExchangeMessage } from "@/lib/tools/types"
+import type { ToolStep } from "@/lib/types"
+
+// Most rounds of tool calls for one reply; the round after the last is sent without tools
+export const MAX_TOOL_ROUNDS = 5
+
+// Events of a reply that uses tools: each call when the model makes it, and its result once the tool has run
+export type ToolEvent = { type: "tool-call"; toolCall: ToolStep } | { type: "tool-result"; toolResult: ToolStep }
+
+export type ToolLoopRequest = Omit<CompletionRequest, "model" | "fallback" | "tools" | "toolMessages"> & {
+  tools: ToolDefinition<any>[]
+}
+
+// Helper function to add up the tokens of every round of a reply
+function addUsage(total: Usage | undefined, usage: Usage | undefined): Usage | undefined {
+  if (!total || !usage) return total || usage
+  const add = (a?: number, b?: number) => (a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0))
+  return {
+    promptTokens: add(total.promptTokens, usage.promptTokens),
+    completionTokens: add(total.completionTokens, usage.completionTokens),
+    totalTokens: add(total.totalTokens, usage.totalTokens),
+  }
+}
+
+/**
+ * Answer with tools. `answered` is the reply to the conversation sent with the
+ * tools, which the route waits for itself so a failed first request still gets
+ * an HTTP error. While the model asks for tool calls, each is run and its
+ * result sent back in another request to the same model; the first reply
+ * without calls is the answer. After MAX_TOOL_ROUNDS rounds the model is asked
+ * once more without tools, so it has to answer; some models still write tool
+ * calls into that reply, which are not run: its text is the answer, or the
+ * events end with `error` when it has none. Backend failures after the first
+ * request end the events with `error`, as does running out of time: every
+ * round shares the request's `deadline`.
+ */
+export async function* runToolLoop(
+  answered: CompletionResponse,
+  { tools, ...request }: ToolLoopRequest,
+): AsyncGenerator<CompletionEvent | ToolEvent> {
+  const { upstream, deadline, log } = request
+  const exchange: ToolExchangeMessage[] = []
+  let { response, adapter } = answered
+  let usage: Usage | undefined
+
+  try {
+    for (let round = 1; ; round++) {
+      const reply = readBufferedResponse(await response.text(), adapter, log)
+      usage = addUsage(usage, reply.usage)
+      if (!reply.toolCalls?.length || round > MAX_TOOL_ROUNDS) {
+        if (reply.toolCalls?.length) log.warn("Model kept calling tools after the last round", { round })
+        if (reply.text) {
+          yield { type: "text-delta", textDelta: reply.text }
+        } else if (reply.toolCalls?.length) {
+          yield { type: "error", error: `The model did not answer after ${MAX_TOOL_ROUNDS} rounds of tool calls` }
+          return
+        }
+        yield { type: "finish", finishReason: reply.finishReason, usage }
+        return
+      }
+
+      log.info("Model called tools", { round, tools: reply.toolCalls.map(({ name }) => name) })
+      exchange.push({
+        role: "assistant",
+        content: reply.text,
+        tool_calls: reply.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: {
+            name: call.name,
+            arguments: typeof call.arguments === "string" ? call.arguments : JSON.stringify(call.arguments),
+          },
+        })),
+      })
+
+      for (const call of reply.toolCalls) {
+        yield { type: "tool-call", toolCall: { id: call.id, name: call.name, arguments: call.arguments } }
+        const step = await runToolCall(call, tools, { upstream, deadline, log })
+        yield { type: "tool-result", toolResult: step }
+        const content = step.error === undefined ? step.result || "" : `Error: ${step.error}`
+        exchange.push({ role: "tool", tool_call_id: call.id, name: call.name, content })
+      }
+
+      const next = await requestCompletion({
+        ...request,
+        model: answered.model,
+        fallback: false,
+        tools: round < MAX_TOOL_ROUNDS ? toBackendTools(tools) : undefined,
+        toolMessages: exchange,
+      })
+      response = next.response
+      adapter = next.adapter
+    }
+  } catch (error) {
+    if (upstream.signal.aborted) throw error
+    log.warn("Tool round failed", { error })
+    // Backend errors carry generic messages; anything else may hold internal details
+    yield { type: "error", error: error instanceof UpstreamError ? error.message : "The model request failed" }
+  }
+}
@@ -0,0 +1,64 @@
+import type { z } from "zod"
+
+import type { Logger } from "@/lib/logger"
+
+/**
+ * Tools a model can call while answering (see lib/tools/loop.ts). Each tool
+ * describes its arguments twice: as JSON Schema for the model, and as a zod
+ * schema that checks what the model actually sends before the tool runs.
+ */
+
+// The request a tool runs for: cancelled when the client goes away, and due by the request's deadline, if any
+export interface ToolContext {
+  upstream: AbortController
+  deadline?: number
+  log: Logger
+}
+
+export interface ToolDefinition<Args = unknown> {
+  // Name the model calls the tool by
+  name: string
+  description: string
+  // JSON Schema of the arguments, as the model is shown it
+  parameters: Record<string, unknown>
+  schema: z.ZodType<Args>
+  // Whether the server is set up for the tool; tools are offered when unset
+  isAvailable?: () => boolean
+  // The tool's output as text for the model; throws a ToolError when the call cannot be answered
+  run(args: Args, context: ToolContext): Promise<string>
+}
+
+// A tool call a model asked for; `arguments` is whatever it sent, checked by the tool's schema before it runs
+export interface ToolCall {
+  id: string
+  name: string
+  arguments: unknown
+}
+
+// A tool as a chat request offers it, in the OpenAI function-calling shape that Workers AI also takes
+export interface BackendTool {
+  type: "function"
+  function: { name: string; description: string; parameters: Record<string, unknown> }
+}
+
+// The messages a tool round adds to the conversation: the model's calls, then one result per call
+export type ToolExchangeMessage =
+  | {
+      role: "assistant"
+      content: string
+      tool_calls: { id: string; type: "function"; function: { name: string; arguments: string } }[]
+    }
+  | { role: "tool"; tool_call_id: string; name: string; content: string }
+
+// Raised when a tool cannot answer a call; the message is sent back to the model as the call's error
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ToolError"
+  }
+}
+
+// Define a tool with its argument type inferred from its schema
+export function defineTool<Args>(tool: ToolDefinition<Args>): ToolDefinition<Args> {
+  return tool
+}
@@ -0,0 +1,130 @@
+import type { ATTACHMENT_KINDS } from "@/lib/attachments"
+import type { ErrorCategory } from "@/lib/errors"
+import type { GenerationParams } from "@/lib/generation"
+import type { IMAGE_MIME_TYPES } from "@/lib/images"
+
+export type AttachmentKind = (typeof ATTACHMENT_KINDS)[number]
+
+// A file attached to a user message, with the text extracted from it by the server
+export interface Attachment {
+  id: string
+  name: string
+  kind: AttachmentKind
+  // Size of the uploaded file in bytes
+  size: number
+  text: string
+  // The extracted text was cut off at MAX_ATTACHMENT_CHARS
+  truncated?: boolean
+}
+
+// An image in a user message, stored inline so it survives reloads and exports (see lib/images.ts)
+export interface ImagePart {
+  type: "image"
+  id: string
+  mimeType: (typeof IMAGE_MIME_TYPES)[number]
+  // `data:<mimeType>;base64,...`
+  dataUrl: string
+  // Name of the file it came from; pasted images have none
+  name?: string
+}
+
+// An image a text-to-image model produced as an assistant reply (see lib/image-generation.ts)
+export interface GeneratedImage {
+  // `data:<mimeType>;base64,...`
+  dataUrl: string
+  mimeType: string
+  prompt: string
+  seed?: number
+  // Pixel size read from the image; unknown for formats that are not parsed
+  width?: number
+  height?: number
+}
+
+// A document in the knowledge base; its chunks and their vectors are kept by the store (see lib/knowledge)
+export interface KnowledgeDocument {
+  id: string
+  // File name, including its folder when a folder was added
+  name: string
+  kind: AttachmentKind
+  // Size of the uploaded file in bytes
+  size: number
+  chunkCount: number
+  // Embedding model the chunks were embedded with; only chunks of the current model are searched
+  model: string
+  createdAt: number
+}
+
+// A knowledge base passage given to the model for a reply, which cites it as [index]
+export interface KnowledgeSource {
+  index: number
+  documentId: string
+  documentName: string
+  text: string
+  // Cosine similarity between the passage and the question
+  score: number
+}
+
+// A tool the model called while answering, and what it returned (see lib/tools)
+export interface ToolStep {
+  id: string
+  name: string
+  // The arguments as the model sent them
+  arguments?: unknown
+  // The tool's output once it has run, or why the call failed
+  result?: string
+  error?: string
+}
+
+// Tokens used by an assistant reply; `estimated` when the backend did not report them
+export interface MessageUsage {
+  promptTokens: number
+  completionTokens: number
+  estimated?: boolean
+}
+
+export interface Message {
+  id: string
+  // Previous message in the thread; null for the first message (see lib/message-tree.ts)
+  parentId?: string | null
+  role: "user" | "assistant"
+  content: string
+  // Files attached to a user message
+  attachments?: Attachment[]
+  // Images of a multi-part user message; `content` is its text part
+  images?: ImagePart[]
+  // Set on an assistant reply from a text-to-image model, whose `content` is empty
+  image?: GeneratedImage
+  // Knowledge base passages the reply was given, numbered as it cites them
+  sources?: KnowledgeSource[]
+  // Tool calls made for the reply, in order, before its text
+  toolSteps?: ToolStep[]
+  isStreaming?: boolean
+  // Generation was stopped by the user; content holds the partial answer
+  stopped?: boolean
+  // Model that produced an assistant reply
+  model?: string
+  // Model that was asked for, when a fallback model answered instead
+  fallbackFrom?: string
+  // Generation settings used for an assistant reply, kept so it can be reproduced
+  params?: GenerationParams
+  usage?: MessageUsage
+  // When the message was sent or the reply started, in milliseconds since the epoch
+  createdAt?: number
+  // Set on a failed assistant turn, which is kept so it can be retried
+  error?: { message: string; category?: ErrorCategory; requestId?: string }
+}
+
+export interface Conversation {
+  id: string
+  title: string
+  pinned: boolean
+  // Model selected when the conversation was last used
+  model?: string
+  params?: GenerationParams
+  // Every message node, including inactive branches
+  messages: Message[]
+  // Last message of the branch being shown
+  currentLeafId?: string | null
+  createdAt: number
+  updatedAt: number
+}
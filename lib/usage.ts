@@ -0,0 +1,103 @@
+import type { Conversation } from "@/lib/types"
+
+/**
+ * Token usage aggregated from the conversations stored in the browser. Every
+ * assistant reply counts as one request, including failed and stopped ones.
+ */
+
+export interface UsageTotals {
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  // Requests whose token counts are estimates rather than backend-reported
+  estimatedRequests: number
+}
+
+export interface UsageRow extends UsageTotals {
+  key: string
+  label: string
+}
+
+export interface UsageSummary {
+  totals: UsageTotals
+  // One row per day of the period, oldest first, including days without requests
+  byDay: UsageRow[]
+  // Sorted by total tokens, highest first
+  byModel: UsageRow[]
+  byConversation: UsageRow[]
+}
+
+// Helper function to get the local calendar day of a timestamp, e.g. "2024-05-01"
+function dayKey(timestamp: number): string {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function emptyRow(key: string, label: string): UsageRow {
+  return { key, label, requests: 0, promptTokens: 0, completionTokens: 0, estimatedRequests: 0 }
+}
+
+// Helper function to get the row for `key`, adding it when missing
+function getRow(rows: Map<string, UsageRow>, key: string, label: string): UsageRow {
+  let row = rows.get(key)
+  if (!row) {
+    row = emptyRow(key, label)
+    rows.set(key, row)
+  }
+  return row
+}
+
+// Helper function to sort rows by total tokens, then by requests
+function byTokens(a: UsageRow, b: UsageRow): number {
+  return b.promptTokens + b.completionTokens - (a.promptTokens + a.completionTokens) || b.requests - a.requests
+}
+
+/**
+ * Summarize the replies of the last `days` days (today included). Replies
+ * saved before messages had timestamps count on their conversation's last update.
+ */
+export function summarizeUsage(conversations: Conversation[], days: number, now = Date.now()): UsageSummary {
+  const totals: UsageTotals = { requests: 0, promptTokens: 0, completionTokens: 0, estimatedRequests: 0 }
+  const byDay = new Map<string, UsageRow>()
+  const byModel = new Map<string, UsageRow>()
+  const byConversation = new Map<string, UsageRow>()
+
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = new Date(now)
+    date.setDate(date.getDate() - offset)
+    const key = dayKey(date.getTime())
+    byDay.set(key, emptyRow(key, key))
+  }
+
+  for (const conversation of conversations) {
+    for (const message of conversation.messages) {
+      if (message.role !== "assistant") continue
+
+      const day = byDay.get(dayKey(message.createdAt ?? conversation.updatedAt))
+      if (!day) continue
+
+      const model = message.model || "unknown"
+      const rows = [
+        totals,
+        day,
+        getRow(byModel, model, model),
+        getRow(byConversation, conversation.id, conversation.title),
+      ]
+      for (const row of rows) {
+        row.requests++
+        row.promptTokens += message.usage?.promptTokens || 0
+        row.completionTokens += message.usage?.completionTokens || 0
+        if (message.usage?.estimated) row.estimatedRequests++
+      }
+    }
+  }
+
+  return {
+    totals,
+    byDay: [...byDay.values()],
+    byModel: [...byModel.values()].sort(byTokens),
+    byConversation: [...byConversation.values()].sort(byTokens),
+  }
+}
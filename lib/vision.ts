@@ -0,0 +1,75 @@
+import type { ChatMessage } from "@/lib/chat-history"
+import { parseDataUrl } from "@/lib/images"
+import type { ImageInputFormat } from "@/lib/models"
+
+/**
+ * Shapes a chat history with images for a vision model. Workers AI vision
+ * models disagree on how images are passed, so each catalog model names its
+ * format with `imageInput` (see ImageInputFormat in lib/models.ts).
+ */
+
+// Message content as the backend receives it: plain text, or text and image parts
+export type BackendContent =
+  | string
+  | ({ type: "text"; text: string } | { type: "image_url"; image_url: { url: string } })[]
+
+export interface BackendMessage {
+  role: ChatMessage["role"]
+  content: BackendContent
+}
+
+export interface VisionPayload {
+  // Absent for prompt-only models, which take `inputs.prompt` instead
+  messages?: BackendMessage[]
+  // Model-specific fields sent next to the messages
+  inputs?: Record<string, unknown>
+}
+
+// Helper function to find the most recent image, for models that take a single image
+function getLatestImage(history: ChatMessage[]) {
+  const images = history.flatMap((message) => message.images || [])
+  const latest = images[images.length - 1]
+  return latest && parseDataUrl(latest.dataUrl)
+}
+
+// Helper function to flatten a history into the USER/ASSISTANT transcript LLaVA expects
+function toPrompt(history: ChatMessage[]): string {
+  const turns = history.map((message) => {
+    if (message.role === "system") return message.content
+    return `${message.role === "user" ? "USER" : "ASSISTANT"}: ${message.content}`
+  })
+  return [...turns, "ASSISTANT:"].join("\n")
+}
+
+/**
+ * The messages and extra inputs of a request in `format`. Histories without
+ * images are sent as plain text messages whatever the format.
+ */
+export function toVisionPayload(history: ChatMessage[], format: ImageInputFormat = "content-parts"): VisionPayload {
+  const textMessages = history.map(({ role, content }) => ({ role, content }))
+  const image = getLatestImage(history)
+  if (!image) return { messages: textMessages }
+
+  switch (format) {
+    case "image-field":
+      return { messages: textMessages, inputs: { image: image.base64 } }
+
+    case "prompt":
+      return { inputs: { prompt: toPrompt(history), image: Array.from(Buffer.from(image.base64, "base64")) } }
+
+    case "content-parts":
+      return {
+        messages: history.map(({ role, content, images }) =>
+          images?.length
+            ? {
+                role,
+                content: [
+                  ...(content.trim() ? [{ type: "text" as const, text: content }] : []),
+                  ...images.map((part) => ({ type: "image_url" as const, image_url: { url: part.dataUrl } })),
+                ],
+              }
+            : { role, content },
+        ),
+      }
+  }
+}